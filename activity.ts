@@ -0,0 +1,100 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DateRange, getDatesInRange } from './cli-args';
+import { ActivityItem, ActivityKind } from './commit-sources';
+import { getDayOfInstant } from './timezone';
+
+// Sections of an activity file, with the verb used for each kind
+const SECTIONS: { title: string; kinds: Partial<Record<ActivityKind, string>> }[] = [
+  { title: 'Pull Requests', kinds: { pr_opened: 'Opened', pr_merged: 'Merged' } },
+  {
+    title: 'Reviews',
+    kinds: {
+      pr_approved: 'Approved',
+      pr_changes_requested: 'Requested changes on',
+      pr_reviewed: 'Reviewed',
+      review_comment: 'Commented on',
+    },
+  },
+  { title: 'Issues', kinds: { issue_opened: 'Opened', issue_closed: 'Closed', issue_comment: 'Commented on' } },
+];
+
+export function getActivityDirectory(): string {
+  return path.join(process.cwd(), 'context', 'activity');
+}
+
+export function getActivityFilePath(date: string): string {
+  return path.join(getActivityDirectory(), `activity-${date}.md`);
+}
+
+function formatItem(verb: string, item: ActivityItem): string {
+  const title = item.title ? ` ${item.title}` : '';
+  const excerpt = item.excerpt ? `: "${item.excerpt}"` : '';
+  return `- ${verb} [${item.repository}#${item.number}](${item.url})${title}${excerpt}`;
+}
+
+/**
+ * Formats one day of activity as Markdown, oldest first within each section
+ */
+export function formatActivityFile(date: string, items: ActivityItem[], sources: string): string {
+  const lines = [`# Activity Report - ${date}\n`, `Sources: ${sources}\n`, `Total Events: ${items.length}\n`];
+  const sorted = [...items].sort((a, b) => a.date.localeCompare(b.date));
+
+  SECTIONS.forEach(section => {
+    const sectionItems = sorted.filter(item => section.kinds[item.kind]);
+    if (sectionItems.length === 0) {
+      return;
+    }
+    lines.push(`## ${section.title}`);
+    sectionItems.forEach(item => lines.push(formatItem(section.kinds[item.kind]!, item)));
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Writes one activity file per day of the range that had activity, returning their paths.
+ * Files of days in the range without activity are removed.
+ */
+export async function writeActivityFiles(items: ActivityItem[], range: DateRange, sources: string): Promise<string[]> {
+  const itemsByDate: Record<string, ActivityItem[]> = {};
+  const seen = new Set<string>();
+
+  items.forEach(item => {
+    const date = getDayOfInstant(item.date);
+    // Sources return everything touched around the range; keep the days inside it
+    const key = `${item.kind} ${item.url} ${item.date}`;
+    if (date < range.from || date > range.to || seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+    (itemsByDate[date] = itemsByDate[date] || []).push(item);
+  });
+
+  await fs.mkdir(getActivityDirectory(), { recursive: true });
+
+  const savedFiles: string[] = [];
+  for (const date of getDatesInRange(range)) {
+    const filePath = getActivityFilePath(date);
+    if (!itemsByDate[date]) {
+      // Activity that no longer falls on this day, e.g. after a TIMEZONE change
+      await fs.rm(filePath, { force: true });
+      continue;
+    }
+    await fs.writeFile(filePath, formatActivityFile(date, itemsByDate[date], sources));
+    savedFiles.push(filePath);
+  }
+  return savedFiles;
+}
+
+/**
+ * Reads the activity file for a date, or an empty string if there was no activity
+ */
+export async function readActivityFile(date: string): Promise<string> {
+  try {
+    return await fs.readFile(getActivityFilePath(date), 'utf-8');
+  } catch (error) {
+    return '';
+  }
+}
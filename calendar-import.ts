@@ -0,0 +1,138 @@
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CliArgs, CliError, getDatesInRange, getLastMonthRange, resolveDateRange, runCommand } from './cli-args';
+import { CalendarDay, Meeting, getCalendarDirectory, getCalendarFilePath } from './calendar';
+import { CalendarEvent, readCalendar } from './ics';
+import { request } from './http';
+import { getDayStartInstant, getNextDate } from './timezone';
+
+dotenv.config();
+
+/**
+ * ICS files and URLs from --ics, or the comma-separated CALENDAR_ICS
+ */
+function resolveCalendarSources(args: CliArgs): string[] {
+  const sources = args.ics.length > 0 ? args.ics : (process.env.CALENDAR_ICS || '').split(',');
+  return sources.map(source => source.trim()).filter(Boolean);
+}
+
+function isUrl(source: string): boolean {
+  return /^(https?|webcal):\/\//i.test(source);
+}
+
+/**
+ * Names a source for logs; calendar URLs often contain a secret, so only the host is shown
+ */
+function describeSource(source: string): string {
+  return isUrl(source) ? `${new URL(source.replace(/^webcal:/i, 'https:')).host} calendar` : source;
+}
+
+async function readSource(source: string): Promise<string> {
+  if (isUrl(source)) {
+    // webcal:// is a subscription link to the same calendar over HTTPS
+    const url = source.replace(/^webcal:/i, 'https:');
+    return (await request<string>({ method: 'GET', url, responseType: 'text' })).data;
+  }
+  return fs.readFile(path.resolve(source.replace(/^~(?=$|\/)/, process.env.HOME || '~')), 'utf-8');
+}
+
+/**
+ * Splits events into meetings per day, clipping those that cross the day boundary
+ */
+function groupByDay(events: CalendarEvent[], dates: string[]): CalendarDay[] {
+  return dates.map(date => {
+    const dayStart = getDayStartInstant(date);
+    const dayEnd = getDayStartInstant(getNextDate(date));
+
+    const meetings: Meeting[] = events
+      .filter(event => event.start < dayEnd && (event.end > dayStart || (event.end.getTime() === event.start.getTime() && event.start >= dayStart)))
+      .map(event => {
+        const start = event.start < dayStart ? dayStart : event.start;
+        const end = event.end > dayEnd ? dayEnd : event.end;
+        return {
+          title: event.summary,
+          start: start.toISOString(),
+          end: end.toISOString(),
+          duration_seconds: Math.round((end.getTime() - start.getTime()) / 1000),
+          all_day: event.all_day,
+          location: event.location,
+          status: event.status === 'TENTATIVE' ? event.status : undefined,
+        };
+      });
+
+    return { date, meetings };
+  });
+}
+
+/**
+ * Runs the calendar command for the selected dates, or last month by default
+ */
+export async function runCalendar(args: CliArgs) {
+  const range = resolveDateRange(args) || getLastMonthRange();
+  const sources = resolveCalendarSources(args);
+
+  if (sources.length === 0) {
+    throw new CliError('Set CALENDAR_ICS in .env file or pass --ics with .ics files or calendar URLs');
+  }
+
+  const labels = sources.map(describeSource).join(', ');
+  if (args.dryRun) {
+    console.log(`Would import meetings from ${labels} from ${range.from} to ${range.to} into context/calendar/`);
+    return;
+  }
+
+  const dates = getDatesInRange(range);
+  if (dates.length === 0) {
+    console.log(`No past days between ${range.from} and ${range.to}`);
+    return;
+  }
+  const from = getDayStartInstant(dates[0]);
+  const to = getDayStartInstant(getNextDate(dates[dates.length - 1]));
+
+  // Like commits, a failed source stops the run before any day file changes
+  const events: CalendarEvent[] = [];
+  for (const source of sources) {
+    try {
+      const sourceEvents = readCalendar(await readSource(source), from, to);
+      console.log(`Found ${sourceEvents.length} events in ${describeSource(source)}`);
+      events.push(...sourceEvents);
+    } catch (error) {
+      throw new Error(`Failed to read calendar ${describeSource(source)}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // The same meeting exported from several calendars is counted once
+  const seen = new Set<string>();
+  const uniqueEvents = events
+    .filter(event => {
+      const key = event.uid ? `${event.uid} ${event.start.getTime()}` : `${event.summary} ${event.start.getTime()} ${event.end.getTime()}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  await fs.mkdir(getCalendarDirectory(), { recursive: true });
+
+  const savedFiles: string[] = [];
+  for (const day of groupByDay(uniqueEvents, dates)) {
+    const filePath = getCalendarFilePath(day.date);
+    if (day.meetings.length === 0) {
+      // Meetings cancelled since the last import
+      await fs.rm(filePath, { force: true });
+      continue;
+    }
+    await fs.writeFile(filePath, JSON.stringify(day, null, 2) + '\n');
+    savedFiles.push(filePath);
+  }
+
+  console.log(`Saved ${savedFiles.length} daily meeting lists from ${dates[0]} to ${dates[dates.length - 1]}:`);
+  savedFiles.forEach(file => console.log(`  - ${file}`));
+}
+
+if (require.main === module) {
+  runCommand('calendar', process.argv.slice(2), runCalendar);
+}
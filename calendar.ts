@@ -0,0 +1,86 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { formatTime } from './rescuetime';
+import { toZonedTime } from './timezone';
+
+export interface Meeting {
+  title: string;
+  // ISO timestamps, clipped to the day for meetings that cross midnight
+  start: string;
+  end: string;
+  duration_seconds: number;
+  all_day: boolean;
+  location?: string;
+  // Set for tentative meetings
+  status?: string;
+}
+
+export interface CalendarDay {
+  date: string;
+  // Sorted by start time
+  meetings: Meeting[];
+}
+
+export function getCalendarDirectory(): string {
+  return path.join(process.cwd(), 'context', 'calendar');
+}
+
+export function getCalendarFilePath(date: string): string {
+  return path.join(getCalendarDirectory(), `calendar-${date}.json`);
+}
+
+/**
+ * Reads the meetings imported for a date, or null if there are none
+ */
+export async function readCalendarDay(date: string): Promise<CalendarDay | null> {
+  try {
+    return JSON.parse(await fs.readFile(getCalendarFilePath(date), 'utf-8'));
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Seconds spent in meetings, counting overlapping meetings once and all-day events not at all
+ */
+export function getMeetingSeconds(meetings: Meeting[]): number {
+  const intervals = meetings
+    .filter(meeting => !meeting.all_day)
+    .map(meeting => [new Date(meeting.start).getTime(), new Date(meeting.end).getTime()])
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let coveredUntil = -Infinity;
+  intervals.forEach(([start, end]) => {
+    const from = Math.max(start, coveredUntil);
+    if (end > from) {
+      total += end - from;
+      coveredUntil = end;
+    }
+  });
+  return Math.round(total / 1000);
+}
+
+/**
+ * Formats a meeting as "09:00-09:30 Title (location)", or "All day Title"
+ */
+export function formatMeeting(meeting: Meeting): string {
+  const time = meeting.all_day
+    ? 'All day'
+    : `${toZonedTime(meeting.start).slice(11, 16)}-${toZonedTime(meeting.end).slice(11, 16)}`;
+  const location = meeting.location ? ` (${meeting.location})` : '';
+  const tentative = meeting.status === 'TENTATIVE' ? ' [tentative]' : '';
+  return `${time} ${meeting.title || '(no title)'}${location}${tentative}`;
+}
+
+/**
+ * Formats a day's meetings as Markdown for the summary prompt
+ */
+export function formatCalendarDay(day: CalendarDay): string {
+  const lines = [
+    `# Meetings - ${day.date}\n`,
+    `Total meeting time: ${formatTime(getMeetingSeconds(day.meetings))}\n`,
+    ...day.meetings.map(meeting => `- ${formatMeeting(meeting)}`),
+  ];
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,66 @@
+import { CategoryTime, formatTime } from './rescuetime';
+import { ReportActivity } from './report';
+import { calculatePulse } from './scoring';
+
+/**
+ * An overview category such as "Software Development", or one of its categories
+ * such as "Editing & IDEs" as a child
+ */
+export interface CategoryNode {
+  name: string;
+  seconds: number;
+  // Share of all categorized time
+  percentage: number;
+  // The pulse of the activities in the category; null when none of them were found
+  productivity_pulse: number | null;
+  // Sorted by time spent, descending; empty for categories
+  children: CategoryNode[];
+}
+
+// What the pulse of a category is calculated from: report or RescueTime activities
+type CategoryActivity = Pick<ReportActivity, 'category' | 'productivity' | 'time_spent_seconds'>;
+
+function toNode(name: string, seconds: number, totalSeconds: number, activities: CategoryActivity[], children: CategoryNode[] = []): CategoryNode {
+  return {
+    name,
+    seconds,
+    percentage: totalSeconds > 0 ? Math.round(seconds / totalSeconds * 1000) / 10 : 0,
+    productivity_pulse: activities.length > 0
+      ? calculatePulse(activities.map(activity => ({ productivity: activity.productivity, seconds: activity.time_spent_seconds })))
+      : null,
+    children,
+  };
+}
+
+/**
+ * Builds the category tree from category times, which may repeat a category (e.g. one per day).
+ * The pulse of each category comes from the activities filed under it.
+ */
+export function buildCategoryTree(times: CategoryTime[], activities: CategoryActivity[]): CategoryNode[] {
+  const overviews = new Map<string, Map<string, number>>();
+  times.forEach(time => {
+    const categories = overviews.get(time.overview) || new Map<string, number>();
+    categories.set(time.category, (categories.get(time.category) || 0) + time.time_spent_seconds);
+    overviews.set(time.overview, categories);
+  });
+
+  const totalSeconds = times.reduce((total, time) => total + time.time_spent_seconds, 0);
+  const activitiesOf = (category: string) => activities.filter(activity => activity.category === category);
+  const bySeconds = (a: CategoryNode, b: CategoryNode) => b.seconds - a.seconds;
+
+  return Array.from(overviews.entries()).map(([overview, categories]) => {
+    const children = Array.from(categories.entries())
+      .map(([category, seconds]) => toNode(category, seconds, totalSeconds, activitiesOf(category)))
+      .sort(bySeconds);
+    const seconds = children.reduce((total, child) => total + child.seconds, 0);
+    return toNode(overview, seconds, totalSeconds, children.flatMap(child => activitiesOf(child.name)), children);
+  }).sort(bySeconds);
+}
+
+/**
+ * Formats a node for reports, e.g. "Software Development: 4h 0m (66.7%), pulse 95"
+ */
+export function formatCategoryNode(node: CategoryNode): string {
+  const pulse = node.productivity_pulse === null ? '' : `, pulse ${node.productivity_pulse}`;
+  return `${node.name}: ${formatTime(node.seconds)} (${node.percentage}%)${pulse}`;
+}
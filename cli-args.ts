@@ -0,0 +1,570 @@
+import {
+  format,
+  parseISO,
+  isValid,
+  subMonths,
+  startOfMonth,
+  endOfMonth,
+  startOfISOWeek,
+  endOfISOWeek,
+  eachDayOfInterval,
+} from 'date-fns';
+import { ReportFormat, RENDERERS, isReportFormat } from './renderers';
+import { LlmConfig, LLM_PROVIDERS, isLlmProviderName } from './llm';
+import { PromptBudget, SUMMARY_MODES, isSummaryMode } from './prompt-budget';
+import { SummaryPeriod, SUMMARY_PERIODS, isSummaryPeriod } from './summary-rollup';
+import {
+  ROUNDING_MODES,
+  TIMESHEET_FORMATS,
+  TimesheetFormat,
+  TimesheetOptions,
+  isRoundingMode,
+  isTimesheetFormat,
+} from './timesheet-formats';
+import { PIPELINE_STEPS, PipelineStep, isPipelineStep } from './pipeline-steps';
+import { getToday, getYesterday } from './timezone';
+
+export type CommandName = 'report' | 'summarize' | 'commits' | 'calendar' | 'timesheet' | 'dashboard' | 'deliver' | 'daemon' | 'run';
+
+// Options shared by every command
+export interface CliArgs {
+  date?: string;
+  from?: string;
+  to?: string;
+  // YYYY-MM, or the current month when given without a value
+  month?: string;
+  week: boolean;
+  force: boolean;
+  dryRun: boolean;
+  help: boolean;
+  // Report only: use the local store without calling the API
+  offline: boolean;
+  // Report only: regenerate every stored day
+  rebuild: boolean;
+  // Report only: output formats, markdown by default
+  formats: ReportFormat[];
+  // Summarize only: overrides of the LLM_* environment variables
+  llm: Partial<LlmConfig>;
+  // Summarize only: overrides of the SUMMARY_* environment variables
+  budget: Partial<PromptBudget>;
+  // Summarize only: rollup summaries to write for the selected periods
+  rollups: SummaryPeriod[];
+  // Commits only: also collect pull request, review and issue activity
+  activity: boolean;
+  // Calendar only: .ics files or URLs, overriding CALENDAR_ICS
+  ics: string[];
+  // Timesheet only: overrides of the TIMESHEET_* environment variables
+  timesheet: Partial<TimesheetOptions>;
+  // Deliver only: target names from deliveries.json, all when empty
+  targets: string[];
+  // Daemon only: catch up once and exit instead of staying in the background
+  once: boolean;
+  // Daemon only: "HH:mm", overriding DAEMON_TIME
+  at?: string;
+  // Run only: steps to run, all when empty
+  steps: PipelineStep[];
+  // Run only: the run to resume, or '' for the latest
+  resume?: string;
+}
+
+export interface DateRange {
+  from: string;
+  to: string;
+  // Which option selected the range, so commands can add rollups
+  kind: 'date' | 'range' | 'week' | 'month';
+}
+
+// Invalid usage; printed without a stack trace, followed by a hint to use --help
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+const COMMAND_DESCRIPTIONS: Record<CommandName, string> = {
+  report: 'Generate RescueTime reports (default: yesterday)',
+  summarize: 'Generate AI summaries for existing reports (default: every report without a summary)',
+  commits: 'Fetch commits and pull request, review and issue activity into context/ (default: last month)',
+  calendar: 'Import meetings from .ics files or calendar URLs into context/calendar/ (default: last month)',
+  timesheet: 'Export hours per project and day for billing and time-tracking tools (default: last month)',
+  dashboard: 'Build a static HTML dashboard in site/ from reports, summaries and commits (default: all days)',
+  deliver: 'Send reports and summaries to Slack, email and webhooks (default: yesterday)',
+  daemon: 'Run the pipeline every day and catch up on missed days (default: the last DAEMON_CATCH_UP_DAYS days)',
+  run: 'Run report, commits, summarize and deliver in order, recording a manifest in data/runs/ (default: yesterday)',
+};
+
+const COMMAND_NOTES: Record<CommandName, string[]> = {
+  report: [
+    '--week and --month also write a rollup report for the period.',
+    'Exits with status 2 when a goal in goals.json was missed (except with --rebuild).',
+    '--offline             Build reports from the local store only',
+    '--rebuild             Regenerate every day in the local store (implies --offline)',
+    `--format LIST         Comma-separated output formats: ${Object.keys(RENDERERS).join(', ')} (default: markdown)`,
+  ],
+  summarize: [
+    '--force regenerates summaries that already exist.',
+    '--week and --month also write the rollup summary for the period.',
+    `--rollup LIST         Rollup summaries to write: ${SUMMARY_PERIODS.join(', ')} (default: none)`,
+    `--provider NAME       LLM provider: ${LLM_PROVIDERS.join(', ')} (default: LLM_PROVIDER or openai)`,
+    '--model NAME          Model, or the deployment name for Azure (default: LLM_MODEL)',
+    '--temperature N       Sampling temperature (default: LLM_TEMPERATURE or 0.7)',
+    '--max-tokens N        Maximum tokens in the summary (default: LLM_MAX_TOKENS)',
+    '--base-url URL        API base URL, e.g. http://localhost:11434/v1 for Ollama (default: LLM_BASE_URL)',
+    '--max-input-tokens N  Input token budget per request (default: SUMMARY_MAX_INPUT_TOKENS or 12000)',
+    '--chunk-tokens N      Size of each hourly segment in map-reduce mode (default: SUMMARY_CHUNK_TOKENS or 3000)',
+    `--summary-mode MODE   ${SUMMARY_MODES.join(', ')}; auto segments reports too large for the budget (default: SUMMARY_MODE or auto)`,
+  ],
+  commits: [
+    'Day files in the range are always rewritten; --force is accepted for consistency.',
+    'Pull request, review and issue activity is written to context/activity/.',
+    '--no-activity         Only collect commits',
+  ],
+  calendar: [
+    'Day files in the range are always rewritten; --force is accepted for consistency.',
+    '--ics LIST            Comma-separated .ics files or http(s)/webcal URLs (default: CALENDAR_ICS)',
+  ],
+  timesheet: [
+    'The timesheet files for the range are always rewritten; --force is accepted for consistency.',
+    '--offline             Use the local store only',
+    `--export LIST         Comma-separated formats: ${TIMESHEET_FORMATS.join(', ')} (default: csv)`,
+    '--round MINUTES       Round each entry to a multiple of this (default: TIMESHEET_ROUND_MINUTES or 0, exact)',
+    `--rounding MODE       ${ROUNDING_MODES.join(', ')} (default: TIMESHEET_ROUNDING or nearest)`,
+    '--min-minutes N       Leave out entries with less tracked time (default: TIMESHEET_MIN_MINUTES or 0)',
+  ],
+  dashboard: [
+    'The site is always rewritten; --force is accepted for consistency.',
+  ],
+  deliver: [
+    'Days are sent once per target; --force sends them again.',
+    '--target LIST         Comma-separated target names from deliveries.json (default: all)',
+  ],
+  daemon: [
+    'Date options are ignored; missing days are found in reports/ and summaries/.',
+    '--at HH:mm            Time of the daily run (default: DAEMON_TIME or 06:00)',
+    '--once                Catch up once and exit, e.g. from cron or at login',
+    '--dry-run             List the days that would be caught up',
+  ],
+  run: [
+    'Every step gets the same dates and options; deliveries are never resent, --force only regenerates.',
+    'Accepts the options of its steps, e.g. --format for report or --provider for summarize.',
+    'A step waits for the steps it needs; when one fails, the rest of the run is marked blocked.',
+    `--steps LIST          Comma-separated steps: ${PIPELINE_STEPS.join(', ')} (default: all)`,
+    '--resume [ID]         Rerun the steps of a run that did not succeed (default: the latest run)',
+  ],
+};
+
+// Options every command accepts, as listed under "Options:" in --help
+const COMMON_OPTIONS = ['--date', '--from', '--to', '--month', '--week', '--force', '--dry-run', '--help', '-h'];
+
+/**
+ * The options of a command beyond the common ones: those in its --help notes,
+ * plus those of its steps for run
+ */
+function getCommandOptions(command: CommandName): string[] {
+  const own = COMMAND_NOTES[command].flatMap(note => {
+    // "--name [VALUE]   Description"; notes in prose have no column gap
+    const match = note.match(/^(--[a-z-]+)(?: \S+)? {2,}/);
+    return match ? [match[1]] : [];
+  });
+  return command === 'run' ? [...own, ...PIPELINE_STEPS.flatMap(getCommandOptions)] : own;
+}
+
+/**
+ * Builds the --help text, for one command or for the whole CLI
+ */
+export function formatHelp(command?: CommandName): string {
+  const lines: string[] = [];
+
+  if (command) {
+    lines.push(`Usage: cli ${command} [options]`, '', COMMAND_DESCRIPTIONS[command], '');
+  } else {
+    lines.push('Usage: cli <command> [options]', '', 'Commands:');
+    (Object.keys(COMMAND_DESCRIPTIONS) as CommandName[]).forEach(name => {
+      lines.push(`  ${name.padEnd(20)}${COMMAND_DESCRIPTIONS[name]}`);
+    });
+    lines.push('');
+  }
+
+  lines.push(
+    'Options:',
+    '  --date YYYY-MM-DD     A single day',
+    '  --from YYYY-MM-DD     First day of a range (--to defaults to yesterday)',
+    '  --to YYYY-MM-DD       Last day of a range',
+    '  --month [YYYY-MM]     A calendar month (default: the current month)',
+    '  --week                The ISO week containing --date (default: yesterday)',
+    '  --force               Regenerate outputs that already exist',
+    '  --dry-run             Show what would be done without calling APIs or writing files',
+    '  --help                Show this help',
+  );
+
+  if (command) {
+    lines.push('', ...COMMAND_NOTES[command].map(note => `  ${note}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parses a YYYY-MM-DD option value
+ */
+function parseDateValue(option: string, value: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !isValid(parseISO(value))) {
+    throw new CliError(`${option} expects a date in YYYY-MM-DD format, got "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * Parses command-line options; a bare date is accepted as --date.
+ * With a command, options that only apply to other commands are rejected.
+ */
+export function parseArgs(argv: string[], command?: CommandName): CliArgs {
+  const args: CliArgs = {
+    week: false,
+    force: false,
+    dryRun: false,
+    help: false,
+    offline: false,
+    rebuild: false,
+    formats: ['markdown'],
+    llm: {},
+    budget: {},
+    rollups: [],
+    activity: true,
+    ics: [],
+    timesheet: {},
+    targets: [],
+    once: false,
+    steps: [],
+  };
+
+  // Returns the value following an option, failing if there is none
+  const takeValue = (index: number, option: string): string => {
+    const value = argv[index + 1];
+    if (value === undefined || value.startsWith('--')) {
+      throw new CliError(`${option} requires a value`);
+    }
+    return value;
+  };
+
+  const commandOptions = command ? [...COMMON_OPTIONS, ...getCommandOptions(command)] : null;
+  const knownOptions = [...COMMON_OPTIONS, ...(Object.keys(COMMAND_NOTES) as CommandName[]).flatMap(getCommandOptions)];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (commandOptions && knownOptions.includes(arg) && !commandOptions.includes(arg)) {
+      throw new CliError(`${arg} is not an option of ${command}`);
+    }
+
+    switch (arg) {
+      case '--date':
+        args.date = parseDateValue(arg, takeValue(i++, arg));
+        break;
+      case '--from':
+        args.from = parseDateValue(arg, takeValue(i++, arg));
+        break;
+      case '--to':
+        args.to = parseDateValue(arg, takeValue(i++, arg));
+        break;
+      case '--month': {
+        // The value is optional
+        const value = argv[i + 1];
+        if (value !== undefined && !value.startsWith('--')) {
+          if (!/^\d{4}-\d{2}$/.test(value) || !isValid(parseISO(`${value}-01`))) {
+            throw new CliError(`--month expects YYYY-MM, got "${value}"`);
+          }
+          args.month = value;
+          i++;
+        } else {
+          args.month = getToday().slice(0, 7);
+        }
+        break;
+      }
+      case '--week':
+        args.week = true;
+        break;
+      case '--force':
+        args.force = true;
+        break;
+      case '--dry-run':
+        args.dryRun = true;
+        break;
+      case '--offline':
+        args.offline = true;
+        break;
+      case '--rebuild':
+        args.rebuild = true;
+        break;
+      case '--format': {
+        const names = takeValue(i++, arg).split(',').map(name => name.trim()).filter(Boolean);
+        const unknown = names.filter(name => !isReportFormat(name));
+        if (names.length === 0 || unknown.length > 0) {
+          throw new CliError(`--format expects one or more of ${Object.keys(RENDERERS).join(', ')}, got "${argv[i]}"`);
+        }
+        args.formats = names as ReportFormat[];
+        break;
+      }
+      case '--provider': {
+        const provider = takeValue(i++, arg);
+        if (!isLlmProviderName(provider)) {
+          throw new CliError(`--provider expects one of ${LLM_PROVIDERS.join(', ')}, got "${provider}"`);
+        }
+        args.llm.provider = provider;
+        break;
+      }
+      case '--model':
+        args.llm.model = takeValue(i++, arg);
+        break;
+      case '--temperature': {
+        const temperature = Number(takeValue(i++, arg));
+        if (isNaN(temperature) || temperature < 0 || temperature > 2) {
+          throw new CliError(`--temperature expects a number between 0 and 2, got "${argv[i]}"`);
+        }
+        args.llm.temperature = temperature;
+        break;
+      }
+      case '--max-tokens': {
+        const maxTokens = Number(takeValue(i++, arg));
+        if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+          throw new CliError(`--max-tokens expects a positive integer, got "${argv[i]}"`);
+        }
+        args.llm.maxTokens = maxTokens;
+        break;
+      }
+      case '--base-url': {
+        const baseUrl = takeValue(i++, arg);
+        if (!/^https?:\/\//.test(baseUrl)) {
+          throw new CliError(`--base-url expects an http(s) URL, got "${baseUrl}"`);
+        }
+        args.llm.baseUrl = baseUrl;
+        break;
+      }
+      case '--max-input-tokens':
+      case '--chunk-tokens': {
+        const tokens = Number(takeValue(i++, arg));
+        if (!Number.isInteger(tokens) || tokens <= 0) {
+          throw new CliError(`${arg} expects a positive integer, got "${argv[i]}"`);
+        }
+        args.budget[arg === '--chunk-tokens' ? 'chunkTokens' : 'maxInputTokens'] = tokens;
+        break;
+      }
+      case '--summary-mode': {
+        const mode = takeValue(i++, arg);
+        if (!isSummaryMode(mode)) {
+          throw new CliError(`--summary-mode expects one of ${SUMMARY_MODES.join(', ')}, got "${mode}"`);
+        }
+        args.budget.mode = mode;
+        break;
+      }
+      case '--rollup': {
+        const names = takeValue(i++, arg).split(',').map(name => name.trim()).filter(Boolean);
+        const unknown = names.filter(name => !isSummaryPeriod(name));
+        if (names.length === 0 || unknown.length > 0) {
+          throw new CliError(`--rollup expects one or more of ${SUMMARY_PERIODS.join(', ')}, got "${argv[i]}"`);
+        }
+        args.rollups = names as SummaryPeriod[];
+        break;
+      }
+      case '--no-activity':
+        args.activity = false;
+        break;
+      case '--ics':
+        args.ics = takeValue(i++, arg).split(',').map(source => source.trim()).filter(Boolean);
+        break;
+      case '--export': {
+        const names = takeValue(i++, arg).split(',').map(name => name.trim()).filter(Boolean);
+        const unknown = names.filter(name => !isTimesheetFormat(name));
+        if (names.length === 0 || unknown.length > 0) {
+          throw new CliError(`--export expects one or more of ${TIMESHEET_FORMATS.join(', ')}, got "${argv[i]}"`);
+        }
+        args.timesheet.formats = names as TimesheetFormat[];
+        break;
+      }
+      case '--round':
+      case '--min-minutes': {
+        const minutes = Number(takeValue(i++, arg));
+        if (!Number.isInteger(minutes) || minutes < 0) {
+          throw new CliError(`${arg} expects a whole number of minutes, got "${argv[i]}"`);
+        }
+        args.timesheet[arg === '--round' ? 'roundMinutes' : 'minMinutes'] = minutes;
+        break;
+      }
+      case '--rounding': {
+        const rounding = takeValue(i++, arg);
+        if (!isRoundingMode(rounding)) {
+          throw new CliError(`--rounding expects one of ${ROUNDING_MODES.join(', ')}, got "${rounding}"`);
+        }
+        args.timesheet.rounding = rounding;
+        break;
+      }
+      case '--target':
+        args.targets = takeValue(i++, arg).split(',').map(name => name.trim()).filter(Boolean);
+        break;
+      case '--once':
+        args.once = true;
+        break;
+      case '--at': {
+        const at = takeValue(i++, arg);
+        if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(at)) {
+          throw new CliError(`--at expects a time as HH:mm, got "${at}"`);
+        }
+        args.at = at;
+        break;
+      }
+      case '--steps': {
+        const steps = takeValue(i++, arg).split(',').map(step => step.trim()).filter(Boolean);
+        const unknown = steps.filter(step => !isPipelineStep(step));
+        if (unknown.length > 0) {
+          throw new CliError(`Unknown step(s) ${unknown.join(', ')}; expected ${PIPELINE_STEPS.join(', ')}`);
+        }
+        args.steps = steps as PipelineStep[];
+        break;
+      }
+      case '--resume': {
+        // The value is optional
+        const value = argv[i + 1];
+        if (value !== undefined && !value.startsWith('--')) {
+          args.resume = value;
+          i++;
+        } else {
+          args.resume = '';
+        }
+        break;
+      }
+      case '--help':
+      case '-h':
+        args.help = true;
+        break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new CliError(`Unknown option ${arg}`);
+        }
+        if (args.date) {
+          throw new CliError(`Unexpected argument "${arg}"`);
+        }
+        args.date = parseDateValue('date', arg);
+    }
+  }
+
+  // Only one way of selecting dates at a time
+  const selectors = [
+    args.from || args.to ? '--from/--to' : null,
+    args.month ? '--month' : null,
+    args.week ? '--week' : null,
+  ].filter(Boolean);
+  if (selectors.length > 1) {
+    throw new CliError(`${selectors.join(' and ')} cannot be combined`);
+  }
+  if (args.date && (args.from || args.to || args.month)) {
+    throw new CliError('--date cannot be combined with --from/--to or --month');
+  }
+  if (args.to && !args.from) {
+    throw new CliError('--to requires --from');
+  }
+
+  return args;
+}
+
+/**
+ * Resolves the selected dates, or null when no date option was given
+ */
+export function resolveDateRange(args: CliArgs): DateRange | null {
+  const yesterday = getYesterday();
+
+  if (args.month) {
+    const monthStart = parseISO(`${args.month}-01`);
+    return {
+      from: format(startOfMonth(monthStart), 'yyyy-MM-dd'),
+      to: format(endOfMonth(monthStart), 'yyyy-MM-dd'),
+      kind: 'month',
+    };
+  }
+
+  if (args.week) {
+    const anchor = parseISO(args.date || yesterday);
+    return {
+      from: format(startOfISOWeek(anchor), 'yyyy-MM-dd'),
+      to: format(endOfISOWeek(anchor), 'yyyy-MM-dd'),
+      kind: 'week',
+    };
+  }
+
+  if (args.from) {
+    const to = args.to || yesterday;
+    if (to < args.from) {
+      throw new CliError(`--from ${args.from} is after --to ${to}`);
+    }
+    return { from: args.from, to, kind: 'range' };
+  }
+
+  if (args.date) {
+    return { from: args.date, to: args.date, kind: 'date' };
+  }
+
+  return null;
+}
+
+/**
+ * Returns the range for the previous calendar month, the historical commits default
+ */
+export function getLastMonthRange(): DateRange {
+  const lastMonth = subMonths(parseISO(getToday()), 1);
+  return {
+    from: format(startOfMonth(lastMonth), 'yyyy-MM-dd'),
+    to: format(endOfMonth(lastMonth), 'yyyy-MM-dd'),
+    kind: 'month',
+  };
+}
+
+/**
+ * Lists the dates of a range, stopping at today
+ */
+export function getDatesInRange(range: DateRange): string[] {
+  const today = getToday();
+  const to = range.to < today ? range.to : today;
+  if (to < range.from) {
+    return [];
+  }
+  return eachDayOfInterval({ start: parseISO(range.from), end: parseISO(to) }).map(day => format(day, 'yyyy-MM-dd'));
+}
+
+/**
+ * Parses argv, prints help or usage errors, and runs the command handler
+ */
+export async function runCommand(
+  command: CommandName,
+  argv: string[],
+  handler: (args: CliArgs) => Promise<void>
+): Promise<void> {
+  let args: CliArgs;
+
+  try {
+    args = parseArgs(argv, command);
+  } catch (error) {
+    if (error instanceof CliError) {
+      console.error(`Error: ${error.message}\n`);
+      console.error(`Run with --help to see the available options.`);
+      process.exitCode = 1;
+      return;
+    }
+    throw error;
+  }
+
+  if (args.help) {
+    console.log(formatHelp(command));
+    return;
+  }
+
+  try {
+    await handler(args);
+  } catch (error) {
+    if (error instanceof CliError) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error(`Error running ${command}:`, error);
+    }
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,46 @@
+import { CliArgs, CommandName, formatHelp, runCommand } from './cli-args';
+import { runReport } from './index';
+import { runSummarize } from './summarize';
+import { runCommits } from './github-commits';
+import { runCalendar } from './calendar-import';
+import { runTimesheet } from './timesheet';
+import { runDashboard } from './dashboard';
+import { runDeliver } from './deliver';
+import { runDaemon } from './daemon';
+import { runPipeline } from './pipeline';
+
+const COMMANDS: Record<CommandName, (args: CliArgs) => Promise<void>> = {
+  report: runReport,
+  summarize: runSummarize,
+  commits: runCommits,
+  calendar: runCalendar,
+  timesheet: runTimesheet,
+  dashboard: runDashboard,
+  deliver: runDeliver,
+  daemon: runDaemon,
+  run: runPipeline,
+};
+
+/**
+ * Dispatches `cli <command> [options]` to the matching tool
+ */
+async function main() {
+  const [command, ...argv] = process.argv.slice(2);
+
+  if (!command || command === '--help' || command === '-h' || command === 'help') {
+    console.log(formatHelp());
+    return;
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(COMMANDS, command)) {
+    console.error(`Error: Unknown command "${command}"\n`);
+    console.error(formatHelp());
+    process.exitCode = 1;
+    return;
+  }
+
+  const name = command as CommandName;
+  await runCommand(name, argv, COMMANDS[name]);
+}
+
+main();
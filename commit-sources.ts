@@ -0,0 +1,203 @@
+import * as dotenv from 'dotenv';
+import { AxiosResponse } from 'axios';
+import { DateRange } from './cli-args';
+import { httpGet } from './http';
+
+dotenv.config();
+
+// One commit, whichever forge or repository it came from
+export interface Commit {
+  sha: string;
+  author_name: string;
+  // ISO timestamp of the authored date
+  date: string;
+  message: string;
+  // Empty for commits without a web page, e.g. in local-only repositories
+  html_url: string;
+  repository: {
+    name: string;
+    full_name: string;
+    html_url?: string;
+  };
+}
+
+export type ActivityKind =
+  | 'pr_opened'
+  | 'pr_merged'
+  | 'pr_approved'
+  | 'pr_changes_requested'
+  | 'pr_reviewed'
+  | 'review_comment'
+  | 'issue_opened'
+  | 'issue_closed'
+  | 'issue_comment';
+
+// Pull request, review or issue activity by the user
+export interface ActivityItem {
+  kind: ActivityKind;
+  // ISO timestamp of when the user did it
+  date: string;
+  // owner/repo, or the project path on GitLab
+  repository: string;
+  number: number;
+  title: string;
+  url: string;
+  // Start of the review or comment text, if any
+  excerpt?: string;
+}
+
+export interface CommitSource {
+  // e.g. "github (octocat)", for logs and the commit files
+  label: string;
+  fetchCommits(range: DateRange): Promise<Commit[]>;
+  // Pull requests, reviews and issues; local repositories have none
+  fetchActivity?(range: DateRange): Promise<ActivityItem[]>;
+}
+
+export type CommitSourceType = 'github' | 'gitlab' | 'gitea';
+
+export const COMMIT_SOURCE_TYPES: CommitSourceType[] = ['github', 'gitlab', 'gitea'];
+
+// One forge instance, read from <NAME>_TYPE, <NAME>_URL, <NAME>_TOKEN and <NAME>_USERNAME
+export interface CommitSourceConfig {
+  name: string;
+  type: CommitSourceType;
+  // Web URL of the instance, e.g. https://gitlab.example.com
+  url: string;
+  token?: string;
+  username?: string;
+}
+
+const DEFAULT_URLS: Record<CommitSourceType, string | undefined> = {
+  github: 'https://github.com',
+  gitlab: 'https://gitlab.com',
+  gitea: undefined,
+};
+
+export function isCommitSourceType(name: string): name is CommitSourceType {
+  return (COMMIT_SOURCE_TYPES as string[]).includes(name);
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Returns the environment variable prefix of a source, e.g. WORK_GITLAB for "work-gitlab"
+ */
+export function getEnvPrefix(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+}
+
+/**
+ * Extra author emails from GIT_AUTHOR_EMAILS, for commits made under other identities
+ */
+export function getConfiguredAuthorEmails(): string[] {
+  return (process.env.GIT_AUTHOR_EMAILS || '').split(',').map(email => email.trim()).filter(Boolean);
+}
+
+/**
+ * Reads the instances listed in COMMIT_SOURCES, e.g. "github,work_gitlab".
+ * Without COMMIT_SOURCES, GitHub is used when GITHUB_USERNAME is set.
+ */
+export function resolveCommitSourceConfigs(): CommitSourceConfig[] {
+  const names = (process.env.COMMIT_SOURCES || (process.env.GITHUB_USERNAME ? 'github' : ''))
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  return names.map(name => {
+    const prefix = getEnvPrefix(name);
+    const type = (process.env[`${prefix}_TYPE`] || name).toLowerCase();
+    if (!isCommitSourceType(type)) {
+      throw new Error(`Set ${prefix}_TYPE to one of ${COMMIT_SOURCE_TYPES.join(', ')} for commit source "${name}"`);
+    }
+
+    const url = process.env[`${prefix}_URL`] || DEFAULT_URLS[type];
+    if (!url) {
+      throw new Error(`Set ${prefix}_URL to the address of the ${type} instance "${name}"`);
+    }
+
+    return {
+      name,
+      type,
+      url: trimSlash(url),
+      token: process.env[`${prefix}_TOKEN`],
+      username: process.env[`${prefix}_USERNAME`],
+    };
+  });
+}
+
+export interface PageOptions {
+  params?: Record<string, unknown>;
+  headers?: Record<string, string | undefined>;
+  // Name of the page size parameter: per_page for GitHub and GitLab, limit for Gitea
+  pageSizeParam: string;
+  pageSize: number;
+  // Returns the items of a page, for APIs that wrap them in an object
+  getItems?: (data: any) => any[] | undefined;
+  // Returns the next page number, or null on the last page
+  getNextPage: (response: AxiosResponse, page: number, itemCount: number) => number | null;
+}
+
+/**
+ * Fetches every page of a list endpoint; a failed page fails the whole call instead of returning partial results
+ */
+export async function fetchAllPages<T>(url: string, options: PageOptions): Promise<T[]> {
+  const results: T[] = [];
+  let page: number | null = 1;
+
+  while (page !== null) {
+    const response: AxiosResponse = await httpGet(url, {
+      params: { ...options.params, [options.pageSizeParam]: options.pageSize, page },
+      headers: options.headers,
+    });
+
+    const items = options.getItems ? options.getItems(response.data) : response.data;
+    if (!Array.isArray(items) || items.length === 0) {
+      break;
+    }
+
+    results.push(...items);
+    page = options.getNextPage(response, page, items.length);
+
+    // Add a small delay to avoid hitting rate limits
+    if (page !== null) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Next page from a Link header with rel="next", as sent by GitHub and Gitea
+ */
+export function getNextPageFromLink(response: AxiosResponse, page: number): number | null {
+  const linkHeader = response.headers.link;
+  return linkHeader && linkHeader.includes('rel="next"') ? page + 1 : null;
+}
+
+/**
+ * Shortens a review or comment body to its first line, for the activity files
+ */
+export function toExcerpt(body: string | null | undefined, maxLength = 120): string | undefined {
+  const line = (body || '').split('\n').map(text => text.trim()).find(Boolean);
+  if (!line) {
+    return undefined;
+  }
+  return line.length > maxLength ? `${line.slice(0, maxLength - 1)}…` : line;
+}
+
+/**
+ * Merges commit lists, keeping the first entry seen for each SHA
+ */
+export function mergeCommits(...lists: Commit[][]): Commit[] {
+  const bySha = new Map<string, Commit>();
+  lists.flat().forEach(commit => {
+    if (!bySha.has(commit.sha)) {
+      bySha.set(commit.sha, commit);
+    }
+  });
+  return [...bySha.values()];
+}
@@ -0,0 +1,252 @@
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { addMinutes, format, parseISO, subDays } from 'date-fns';
+import { CliArgs, getDatesInRange, parseArgs, runCommand } from './cli-args';
+import { acquireLock } from './lock';
+import { isReportFileComplete } from './report';
+import { PIPELINE_STEPS, PipelineStep, isPipelineStep } from './pipeline-steps';
+import { startRun } from './pipeline';
+import { getNextDate, getTimeZone, getYesterday, toZonedTime, wallTimeToInstant } from './timezone';
+
+dotenv.config();
+
+// After RescueTime's sync grace period, so yesterday's data is complete
+const DEFAULT_TIME = '06:00';
+const DEFAULT_STEPS: PipelineStep[] = ['report', 'commits', 'summarize'];
+const DEFAULT_CATCH_UP_DAYS = 30;
+const DEFAULT_RETRY_MINUTES = 30;
+
+// The clock is checked this often instead of sleeping until the next run,
+// because timers do not advance while the computer is asleep
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export interface DaemonOptions {
+  // "HH:mm" in TIMEZONE
+  time: string;
+  steps: PipelineStep[];
+  // How far back missing days are looked for
+  catchUpDays: number;
+  // When to try again after a failed step
+  retryMinutes: number;
+}
+
+// The shape of data/daemon/state.json
+interface DaemonState {
+  last_success?: string;
+  // The latest day every step succeeded for with complete data
+  last_date?: string;
+}
+
+interface Gap {
+  date: string;
+  reasons: string[];
+}
+
+function parsePositiveInteger(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads the DAEMON_* environment variables; --at overrides DAEMON_TIME
+ */
+export function resolveDaemonOptions(at?: string): DaemonOptions {
+  const time = at || process.env.DAEMON_TIME || DEFAULT_TIME;
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+    throw new Error(`DAEMON_TIME must be HH:mm, got "${time}"`);
+  }
+
+  const steps = process.env.DAEMON_STEPS
+    ? process.env.DAEMON_STEPS.split(',').map(step => step.trim()).filter(Boolean)
+    : DEFAULT_STEPS;
+  const unknown = steps.filter(step => !isPipelineStep(step));
+  if (steps.length === 0 || unknown.length > 0) {
+    throw new Error(`DAEMON_STEPS must list some of ${PIPELINE_STEPS.join(', ')}, got "${process.env.DAEMON_STEPS}"`);
+  }
+
+  return {
+    time,
+    // Always in pipeline order, however they are listed
+    steps: PIPELINE_STEPS.filter(step => steps.includes(step)),
+    catchUpDays: parsePositiveInteger('DAEMON_CATCH_UP_DAYS', DEFAULT_CATCH_UP_DAYS),
+    retryMinutes: parsePositiveInteger('DAEMON_RETRY_MINUTES', DEFAULT_RETRY_MINUTES),
+  };
+}
+
+function getStatePath(): string {
+  return path.join(process.cwd(), 'data', 'daemon', 'state.json');
+}
+
+async function readState(): Promise<DaemonState> {
+  try {
+    return JSON.parse(await fs.readFile(getStatePath(), 'utf-8'));
+  } catch (error) {
+    return {}; // First run
+  }
+}
+
+async function writeState(state: DaemonState) {
+  await fs.mkdir(path.dirname(getStatePath()), { recursive: true });
+  await fs.writeFile(getStatePath(), JSON.stringify(state, null, 2));
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+async function isReportDone(date: string): Promise<boolean> {
+  const reportPath = path.join(process.cwd(), 'reports', `rescuetime-report-${date}.md`);
+  return (await fileExists(reportPath)) && isReportFileComplete(date, reportPath);
+}
+
+/**
+ * Finds the days of the catch-up window that still need work, oldest first.
+ * Reports and summaries are checked on disk. Days without commits have no commit file,
+ * so commits (and deliveries) are due for every day after the last successful one.
+ */
+async function findGaps(options: DaemonOptions, state: DaemonState): Promise<Gap[]> {
+  const yesterday = getYesterday();
+  const from = format(subDays(parseISO(yesterday), options.catchUpDays - 1), 'yyyy-MM-dd');
+  const dates = getDatesInRange({ from, to: yesterday, kind: 'range' });
+
+  const gaps: Gap[] = [];
+  for (const date of dates) {
+    const reasons: string[] = [];
+    const afterLastRun = !state.last_date || date > state.last_date;
+
+    if (options.steps.includes('report') && !(await isReportDone(date))) {
+      reasons.push('report missing or incomplete');
+    }
+    if (options.steps.includes('commits') && afterLastRun) {
+      reasons.push('commits not collected');
+    }
+    if (options.steps.includes('summarize') && !(await fileExists(path.join(process.cwd(), 'summaries', `summary-${date}.md`)))) {
+      reasons.push('summary missing');
+    }
+    if (options.steps.includes('deliver') && afterLastRun) {
+      reasons.push('not delivered');
+    }
+
+    if (reasons.length > 0) {
+      gaps.push({ date, reasons });
+    }
+  }
+  return gaps;
+}
+
+/**
+ * Runs the steps as one pipeline run from the first day that needs them, so it is
+ * recorded in data/runs/ like the run command. Returns false when a step failed.
+ */
+export async function catchUp(options: DaemonOptions, dryRun: boolean): Promise<boolean> {
+  const state = await readState();
+  const gaps = await findGaps(options, state);
+
+  if (gaps.length === 0) {
+    console.log(`Nothing to catch up in the last ${options.catchUpDays} days`);
+    if (!dryRun) {
+      state.last_success = new Date().toISOString();
+      await writeState(state);
+    }
+    return true;
+  }
+
+  const from = gaps[0].date;
+  const to = gaps[gaps.length - 1].date;
+  console.log(`Catching up ${gaps.length} day(s) from ${from} to ${to}`);
+  gaps.forEach(gap => console.log(`  ${gap.date}: ${gap.reasons.join(', ')}`));
+  if (dryRun) {
+    console.log(`Would run ${options.steps.join(', ')} from ${from} to ${to}`);
+    return true;
+  }
+
+  // Days in between that are already done are skipped by the steps themselves
+  const manifest = await startRun(parseArgs(['--from', from, '--to', to]), options.steps);
+  if (manifest.status !== 'succeeded') {
+    return false;
+  }
+
+  // Days whose data was not complete yet are picked up again by the next run
+  for (const gap of gaps) {
+    if ((!options.steps.includes('report') || await isReportDone(gap.date)) && (!state.last_date || gap.date > state.last_date)) {
+      state.last_date = gap.date;
+    }
+  }
+  state.last_success = new Date().toISOString();
+  await writeState(state);
+  return true;
+}
+
+/**
+ * The next time the daemon time comes around after the given moment
+ */
+function getNextRun(time: string, after: Date): Date {
+  const today = toZonedTime(after).slice(0, 10);
+  const todayRun = wallTimeToInstant(Date.parse(`${today}T${time}:00Z`), getTimeZone());
+  return todayRun > after ? todayRun : wallTimeToInstant(Date.parse(`${getNextDate(today)}T${time}:00Z`), getTimeZone());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs the daemon: catches up right away, then once a day at the configured time
+ */
+export async function runDaemon(args: CliArgs) {
+  const options = resolveDaemonOptions(args.at);
+
+  if (args.dryRun) {
+    await catchUp(options, true);
+    return;
+  }
+
+  const release = await acquireLock('daemon');
+  process.once('exit', release);
+  (['SIGINT', 'SIGTERM'] as const).forEach(signal => {
+    process.once(signal, () => {
+      console.log(`\nStopping the daemon (${signal})`);
+      release();
+      process.exit();
+    });
+  });
+
+  try {
+    if (args.once) {
+      if (!(await catchUp(options, false))) {
+        throw new Error('A step failed; the next run catches up from there, or resume it with run --resume');
+      }
+      return;
+    }
+
+    console.log(`Daemon started (pid ${process.pid}): ${options.steps.join(', ')} every day at ${options.time}`);
+    let nextRun = new Date();
+    for (;;) {
+      if (Date.now() >= nextRun.getTime()) {
+        const succeeded = await catchUp(options, false);
+        nextRun = succeeded ? getNextRun(options.time, new Date()) : addMinutes(new Date(), options.retryMinutes);
+        console.log(`\nNext run at ${toZonedTime(nextRun).slice(0, 16).replace('T', ' ')}`);
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+  } finally {
+    release();
+  }
+}
+
+if (require.main === module) {
+  runCommand('daemon', process.argv.slice(2), runDaemon);
+}
@@ -0,0 +1,396 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  format,
+  parseISO,
+  startOfMonth,
+  endOfMonth,
+  startOfISOWeek,
+  endOfISOWeek,
+  eachDayOfInterval,
+} from 'date-fns';
+import { CliArgs, resolveDateRange } from './cli-args';
+import { escapeHtml, renderHtmlPage } from './renderers';
+import { stripFrontMatter } from './front-matter';
+
+// Productivity levels from very productive (2) to very distracting (-2)
+const LEVEL_LABELS = ['Very productive', 'Productive', 'Neutral', 'Distracting', 'Very distracting'];
+const LEVEL_COLORS = ['#1f5fa8', '#4a90d9', '#b3b3b3', '#e08a6b', '#c0392b'];
+
+// Figures shown in the charts, read back from a daily report
+interface DayMetrics {
+  total_hours: number;
+  productivity_pulse: number;
+  // Percentage per level, in LEVEL_LABELS order
+  distribution: number[];
+}
+
+interface DayEntry {
+  date: string;
+  metrics: DayMetrics | null;
+  report: string;
+  summary: string;
+  commits: string;
+}
+
+const DASHBOARD_STYLE = `
+  nav { margin-bottom: 1.5rem; }
+  nav a { margin-right: 1rem; }
+  .months { display: flex; flex-wrap: wrap; gap: 1.5rem; }
+  .calendar { width: auto; }
+  .calendar th, .calendar td { text-align: center; width: 2.2rem; height: 2.2rem; padding: 0; border: 1px solid #eee; }
+  .calendar td a { display: block; line-height: 2.2rem; text-decoration: none; color: inherit; }
+  .chart { width: 100%; height: auto; margin-bottom: 1.5rem; }
+  .legend span { display: inline-block; margin-right: 1rem; }
+  .legend i { display: inline-block; width: 0.8rem; height: 0.8rem; margin-right: 0.3rem; vertical-align: middle; }
+  section { margin-bottom: 2rem; }
+`;
+
+async function readOptionalFile(filePath: string): Promise<string> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    return ''; // File does not exist
+  }
+}
+
+/**
+ * Lists the dates found in a directory of files named `<prefix>YYYY-MM-DD<suffix>`
+ */
+async function listDatedFiles(directory: string, prefix: string, suffix: string): Promise<string[]> {
+  try {
+    const files = await fs.readdir(directory);
+    return files
+      .filter(file => file.startsWith(prefix) && file.endsWith(suffix))
+      .map(file => file.slice(prefix.length, file.length - suffix.length))
+      .filter(date => /^\d{4}-\d{2}-\d{2}$/.test(date));
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Reads the chart figures from the JSON report, or from the Markdown one when there is none
+ */
+async function readDayMetrics(date: string, markdown: string): Promise<DayMetrics | null> {
+  const json = await readOptionalFile(path.join(process.cwd(), 'reports', `rescuetime-report-${date}.json`));
+  if (json) {
+    try {
+      const { data } = JSON.parse(json);
+      if (!data) {
+        return null;
+      }
+      return {
+        total_hours: data.summary.total_seconds / 3600,
+        productivity_pulse: data.summary.productivity_pulse,
+        distribution: data.distribution.map((entry: { percentage: number }) => entry.percentage),
+      };
+    } catch (error) {
+      console.error(`Error reading JSON report for ${date}:`, error);
+    }
+  }
+
+  const totalMatch = markdown.match(/Total time tracked: .*\(([\d.]+) hours\)/);
+  if (!totalMatch) {
+    return null;
+  }
+
+  const pulseMatch = markdown.match(/Productivity pulse: (\d+)\/100/);
+  const distribution = LEVEL_LABELS.map(label => {
+    const match = markdown.match(new RegExp(`^- ${label}: .*\\(([\\d.]+)%\\)`, 'm'));
+    return match ? parseFloat(match[1]) : 0;
+  });
+
+  return {
+    total_hours: parseFloat(totalMatch[1]),
+    productivity_pulse: pulseMatch ? parseInt(pulseMatch[1], 10) : 0,
+    distribution,
+  };
+}
+
+/**
+ * Collects the report, summary and commits of every day that has at least one of them
+ */
+async function collectDays(args: CliArgs): Promise<DayEntry[]> {
+  const cwd = process.cwd();
+  const reportsDir = path.join(cwd, 'reports');
+  const summariesDir = path.join(cwd, 'summaries');
+  const commitsDir = path.join(cwd, 'context', 'commits');
+
+  const dates = new Set([
+    ...await listDatedFiles(reportsDir, 'rescuetime-report-', '.md'),
+    ...await listDatedFiles(summariesDir, 'summary-', '.md'),
+    ...await listDatedFiles(commitsDir, 'github-commits-', '.md'),
+  ]);
+
+  const range = resolveDateRange(args);
+  const days: DayEntry[] = [];
+
+  for (const date of Array.from(dates).sort()) {
+    if (range && (date < range.from || date > range.to)) {
+      continue;
+    }
+
+    const report = stripFrontMatter(await readOptionalFile(path.join(reportsDir, `rescuetime-report-${date}.md`)));
+    days.push({
+      date,
+      metrics: await readDayMetrics(date, report),
+      report,
+      summary: await readOptionalFile(path.join(summariesDir, `summary-${date}.md`)),
+      commits: await readOptionalFile(path.join(commitsDir, `github-commits-${date}.md`)),
+    });
+  }
+
+  return days;
+}
+
+// Link targets that are safe to emit; anything else, e.g. javascript:, stays text
+const SAFE_LINK = /^(https?|mailto):/i;
+
+/**
+ * Formats inline Markdown: bold, code and links
+ */
+function renderInlineMarkdown(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (link, label, url) => SAFE_LINK.test(url) ? `<a href="${url}">${label}</a>` : link);
+}
+
+/**
+ * Converts the subset of Markdown our reports, summaries and commit files use
+ */
+export function markdownToHtml(markdown: string): string {
+  const html: string[] = [];
+  let listTag: 'ul' | 'ol' | null = null;
+  let paragraph: string[] = [];
+
+  const closeBlocks = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${paragraph.map(renderInlineMarkdown).join('<br>')}</p>`);
+      paragraph = [];
+    }
+    if (listTag) {
+      html.push(`</${listTag}>`);
+      listTag = null;
+    }
+  };
+
+  markdown.split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^(?:[-*•])\s+(.*)$/);
+    const numbered = line.match(/^\d+\.\s+(.*)$/);
+
+    if (!line) {
+      closeBlocks();
+    } else if (heading) {
+      closeBlocks();
+      // Shift levels down so page titles stay the only <h1>
+      const level = Math.min(heading[1].length + 1, 6);
+      html.push(`<h${level}>${renderInlineMarkdown(heading[2])}</h${level}>`);
+    } else if (bullet || numbered) {
+      const tag = bullet ? 'ul' : 'ol';
+      if (paragraph.length > 0 || listTag !== tag) {
+        closeBlocks();
+        html.push(`<${tag}>`);
+        listTag = tag;
+      }
+      html.push(`<li>${renderInlineMarkdown((bullet || numbered)![1])}</li>`);
+    } else {
+      if (listTag) {
+        closeBlocks();
+      }
+      paragraph.push(line);
+    }
+  });
+
+  closeBlocks();
+  return html.join('\n');
+}
+
+const CHART_WIDTH = 900;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 30;
+
+function getBarGeometry(count: number) {
+  const slot = (CHART_WIDTH - CHART_PADDING * 2) / Math.max(count, 1);
+  return { slot, width: Math.max(slot * 0.8, 1) };
+}
+
+function renderChartFrame(content: string, title: string, maxLabel: string): string {
+  return `<svg class="chart" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img" aria-label="${escapeHtml(title)}">
+<line x1="${CHART_PADDING}" y1="${CHART_HEIGHT - CHART_PADDING}" x2="${CHART_WIDTH - CHART_PADDING}" y2="${CHART_HEIGHT - CHART_PADDING}" stroke="#999"/>
+<text x="2" y="${CHART_PADDING}" font-size="11" fill="#666">${escapeHtml(maxLabel)}</text>
+${content}
+</svg>`;
+}
+
+function getBarX(index: number, slot: number): number {
+  return CHART_PADDING + index * slot;
+}
+
+/**
+ * Bar chart of the hours tracked per day
+ */
+function renderHoursChart(days: DayEntry[]): string {
+  const maxHours = Math.max(1, ...days.map(day => day.metrics?.total_hours || 0));
+  const { slot, width } = getBarGeometry(days.length);
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  const bars = days.map((day, index) => {
+    const hours = day.metrics?.total_hours || 0;
+    const height = (hours / maxHours) * plotHeight;
+    const y = CHART_HEIGHT - CHART_PADDING - height;
+    return `<rect x="${getBarX(index, slot).toFixed(1)}" y="${y.toFixed(1)}" width="${width.toFixed(1)}" height="${height.toFixed(1)}" fill="#4a90d9"><title>${day.date}: ${hours.toFixed(2)}h</title></rect>`;
+  });
+
+  return renderChartFrame(bars.join('\n'), 'Hours tracked per day', `${maxHours.toFixed(1)}h`);
+}
+
+/**
+ * Stacked 100% bars of the productivity distribution per day
+ */
+function renderDistributionChart(days: DayEntry[]): string {
+  const { slot, width } = getBarGeometry(days.length);
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  const bars = days.flatMap((day, index) => {
+    if (!day.metrics) {
+      return [];
+    }
+    let y = CHART_PADDING;
+    return day.metrics.distribution.map((percentage, level) => {
+      const height = (percentage / 100) * plotHeight;
+      const rect = `<rect x="${getBarX(index, slot).toFixed(1)}" y="${y.toFixed(1)}" width="${width.toFixed(1)}" height="${height.toFixed(1)}" fill="${LEVEL_COLORS[level]}"><title>${day.date}: ${LEVEL_LABELS[level]} ${percentage.toFixed(1)}%</title></rect>`;
+      y += height;
+      return rect;
+    });
+  });
+
+  const legend = LEVEL_LABELS.map((label, level) => `<span><i style="background: ${LEVEL_COLORS[level]}"></i>${label}</span>`).join('');
+  return renderChartFrame(bars.join('\n'), 'Productivity distribution per day', '100%') + `\n<p class="legend">${legend}</p>`;
+}
+
+/**
+ * Line chart of the productivity pulse per day
+ */
+function renderPulseChart(days: DayEntry[]): string {
+  const { slot, width } = getBarGeometry(days.length);
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  const points = days
+    .map((day, index) => ({ day, x: getBarX(index, slot) + width / 2 }))
+    .filter(({ day }) => day.metrics)
+    .map(({ day, x }) => ({ day, x, y: CHART_HEIGHT - CHART_PADDING - (day.metrics!.productivity_pulse / 100) * plotHeight }));
+
+  const line = points.length > 1
+    ? `<polyline fill="none" stroke="#1f5fa8" stroke-width="2" points="${points.map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ')}"/>`
+    : '';
+  const dots = points.map(point => `<circle cx="${point.x.toFixed(1)}" cy="${point.y.toFixed(1)}" r="3" fill="#1f5fa8"><title>${point.day.date}: ${point.day.metrics!.productivity_pulse}</title></circle>`);
+
+  return renderChartFrame([line, ...dots].join('\n'), 'Productivity pulse per day', '100');
+}
+
+/**
+ * Month grids with a link on every day that has a page, shaded by hours tracked
+ */
+function renderCalendar(days: DayEntry[]): string {
+  const byDate = new Map(days.map(day => [day.date, day]));
+  const maxHours = Math.max(1, ...days.map(day => day.metrics?.total_hours || 0));
+  const months = Array.from(new Set(days.map(day => day.date.slice(0, 7)))).sort().reverse();
+
+  const grids = months.map(month => {
+    const monthStart = parseISO(`${month}-01`);
+    const gridDays = eachDayOfInterval({ start: startOfISOWeek(monthStart), end: endOfISOWeek(endOfMonth(monthStart)) });
+
+    let html = `<table class="calendar">\n<caption>${format(monthStart, 'MMMM yyyy')}</caption>\n`;
+    html += `<tr>${['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'].map(name => `<th>${name}</th>`).join('')}</tr>\n`;
+
+    for (let week = 0; week < gridDays.length; week += 7) {
+      html += '<tr>';
+      gridDays.slice(week, week + 7).forEach(gridDay => {
+        const date = format(gridDay, 'yyyy-MM-dd');
+        const day = byDate.get(date);
+        if (gridDay < startOfMonth(monthStart) || gridDay > endOfMonth(monthStart)) {
+          html += '<td></td>';
+        } else if (!day) {
+          html += `<td>${format(gridDay, 'd')}</td>`;
+        } else {
+          const intensity = (day.metrics?.total_hours || 0) / maxHours;
+          html += `<td style="background: rgba(74, 144, 217, ${(0.1 + intensity * 0.7).toFixed(2)})"><a href="days/${date}.html" title="${day.metrics ? `${day.metrics.total_hours.toFixed(1)}h` : date}">${format(gridDay, 'd')}</a></td>`;
+        }
+      });
+      html += '</tr>\n';
+    }
+
+    return html + '</table>';
+  });
+
+  return `<div class="months">\n${grids.join('\n')}\n</div>`;
+}
+
+function renderIndexPage(days: DayEntry[]): string {
+  let body = `<h1>RescueTime Dashboard</h1>\n`;
+  body += `<p>${days.length} days from ${days[0].date} to ${days[days.length - 1].date}</p>\n`;
+  body += `<section>\n<h2>Calendar</h2>\n${renderCalendar(days)}\n</section>\n`;
+  body += `<section>\n<h2>Hours Tracked</h2>\n${renderHoursChart(days)}\n</section>\n`;
+  body += `<section>\n<h2>Productivity Distribution</h2>\n${renderDistributionChart(days)}\n</section>\n`;
+  body += `<section>\n<h2>Productivity Pulse</h2>\n${renderPulseChart(days)}\n</section>\n`;
+  return renderHtmlPage('RescueTime Dashboard', body, DASHBOARD_STYLE);
+}
+
+function renderDayPage(day: DayEntry, previous?: DayEntry, next?: DayEntry): string {
+  const title = format(parseISO(day.date), 'EEEE, MMMM do, yyyy');
+
+  let body = '<nav><a href="../index.html">Dashboard</a>';
+  if (previous) {
+    body += `<a href="${previous.date}.html">← ${previous.date}</a>`;
+  }
+  if (next) {
+    body += `<a href="${next.date}.html">${next.date} →</a>`;
+  }
+  body += '</nav>\n';
+  body += `<h1>${escapeHtml(title)}</h1>\n`;
+
+  const sections: [string, string][] = [
+    ['AI Summary', day.summary],
+    ['RescueTime Report', day.report],
+    ['GitHub Commits', day.commits],
+  ];
+  sections.forEach(([heading, content]) => {
+    if (content) {
+      body += `<section>\n<h2>${heading}</h2>\n${markdownToHtml(content)}\n</section>\n`;
+    }
+  });
+
+  return renderHtmlPage(title, body, DASHBOARD_STYLE);
+}
+
+/**
+ * Runs the dashboard command, writing a static site to site/
+ */
+export async function runDashboard(args: CliArgs) {
+  const days = await collectDays(args);
+
+  if (days.length === 0) {
+    console.log('No reports, summaries or commit files found.');
+    return;
+  }
+
+  const siteDir = path.join(process.cwd(), 'site');
+
+  if (args.dryRun) {
+    console.log(`Would write ${siteDir}/index.html and ${days.length} day pages from ${days[0].date} to ${days[days.length - 1].date}`);
+    return;
+  }
+
+  await fs.mkdir(path.join(siteDir, 'days'), { recursive: true });
+  await fs.writeFile(path.join(siteDir, 'index.html'), renderIndexPage(days));
+
+  for (let i = 0; i < days.length; i++) {
+    await fs.writeFile(path.join(siteDir, 'days', `${days[i].date}.html`), renderDayPage(days[i], days[i - 1], days[i + 1]));
+  }
+
+  console.log(`Dashboard with ${days.length} days saved to ${path.join(siteDir, 'index.html')}`);
+}
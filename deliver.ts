@@ -0,0 +1,165 @@
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CliArgs, CliError, getDatesInRange, resolveDateRange, runCommand } from './cli-args';
+import { buildDailyReport } from './report';
+import { loadRedactionConfig, redactDailyReport } from './redaction';
+import { DeliveryContent, DeliveryTarget, deliver, loadDeliveryTargets, resolveSmtpConfig } from './delivery-targets';
+import { getYesterday } from './timezone';
+
+dotenv.config();
+
+// The shape of the delivery record: when each day was delivered, by target name
+interface DeliveryHistory {
+  targets: Record<string, Record<string, string>>;
+}
+
+function getDeliveryHistoryPath(): string {
+  return path.join(process.cwd(), 'data', 'deliveries', 'history.json');
+}
+
+async function readDeliveryHistory(): Promise<DeliveryHistory> {
+  try {
+    const history = JSON.parse(await fs.readFile(getDeliveryHistoryPath(), 'utf-8'));
+    return { targets: history.targets || {} };
+  } catch (error) {
+    return { targets: {} }; // Nothing delivered yet, or unreadable
+  }
+}
+
+async function writeDeliveryHistory(history: DeliveryHistory) {
+  const filePath = getDeliveryHistoryPath();
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(history, null, 2));
+}
+
+/**
+ * Collects what a day has to offer, built once and shared by the targets.
+ * Only complete reports are delivered, like summarize only summarizes those.
+ */
+function createDayLoader(date: string) {
+  let summary: Promise<string | null> | undefined;
+  let report: Promise<DeliveryContent['report'] | null> | undefined;
+
+  const loadSummary = async () => {
+    try {
+      return await fs.readFile(path.join(process.cwd(), 'summaries', `summary-${date}.md`), 'utf-8');
+    } catch (error) {
+      return null;
+    }
+  };
+
+  const loadReport = async () => {
+    let built;
+    try {
+      built = await buildDailyReport(date, { offline: true });
+    } catch (error) {
+      return null; // Not in the local store
+    }
+    if (!built.report || !built.meta.complete) {
+      return null;
+    }
+    const { local: policy } = await loadRedactionConfig();
+    return { report: redactDailyReport(built.report, policy).report, meta: built.meta };
+  };
+
+  return {
+    summary: () => (summary = summary || loadSummary()),
+    report: () => (report = report || loadReport()),
+  };
+}
+
+/**
+ * Gathers a target's artifacts for a day; null while one of them is not ready yet
+ */
+async function getContent(target: DeliveryTarget, date: string, day: ReturnType<typeof createDayLoader>): Promise<DeliveryContent | null> {
+  const content: DeliveryContent = { date };
+
+  if (target.artifacts.includes('summary')) {
+    const summary = await day.summary();
+    if (summary === null) {
+      console.log(`Waiting for summary-${date}.md before delivering to ${target.name}`);
+      return null;
+    }
+    content.summary = summary;
+  }
+
+  if (target.artifacts.includes('report')) {
+    const report = await day.report();
+    if (!report) {
+      console.log(`Waiting for a complete report of ${date} before delivering to ${target.name}`);
+      return null;
+    }
+    content.report = report;
+  }
+
+  return content;
+}
+
+/**
+ * Runs the deliver command for the selected dates, or yesterday by default
+ */
+export async function runDeliver(args: CliArgs) {
+  const allTargets = await loadDeliveryTargets();
+  const unknown = args.targets.filter(name => !allTargets.some(target => target.name === name));
+  if (unknown.length > 0) {
+    throw new CliError(`Unknown delivery target(s) ${unknown.join(', ')}; the delivery config has ${allTargets.map(target => target.name).join(', ') || 'none'}`);
+  }
+  const targets = allTargets.filter(target => args.targets.length === 0 || args.targets.includes(target.name));
+  if (targets.length === 0) {
+    console.log('No delivery targets configured; see deliveries.example.json');
+    return;
+  }
+
+  // Check the SMTP settings before anything is sent
+  const smtp = targets.some(target => target.type === 'email') ? resolveSmtpConfig() : null;
+
+  const yesterday = getYesterday();
+  const range = resolveDateRange(args) || { from: yesterday, to: yesterday, kind: 'date' };
+  const history = await readDeliveryHistory();
+  const failures: string[] = [];
+
+  for (const date of getDatesInRange(range)) {
+    const day = createDayLoader(date);
+
+    for (const target of targets) {
+      const deliveredAt = history.targets[target.name]?.[date];
+      if (deliveredAt && !args.force) {
+        console.log(`Skipping ${date} for ${target.name} - delivered at ${deliveredAt}`);
+        continue;
+      }
+
+      const content = await getContent(target, date, day);
+      if (!content) {
+        continue;
+      }
+
+      if (args.dryRun) {
+        console.log(`Would deliver the ${target.artifacts.join(' and ')} of ${date} to ${target.name} (${target.type})`);
+        continue;
+      }
+
+      try {
+        await deliver(target, content, smtp);
+      } catch (error) {
+        // The other targets and days are still tried; this one is retried on the next run
+        console.error(`Failed to deliver ${date} to ${target.name}: ${error instanceof Error ? error.message : error}`);
+        failures.push(`${date} to ${target.name}`);
+        continue;
+      }
+
+      // Recorded right away, so an interrupted run does not post it again
+      history.targets[target.name] = { ...history.targets[target.name], [date]: new Date().toISOString() };
+      await writeDeliveryHistory(history);
+      console.log(`Delivered the ${target.artifacts.join(' and ')} of ${date} to ${target.name}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`Failed ${failures.length} deliveries: ${failures.join(', ')}`);
+  }
+}
+
+if (require.main === module) {
+  runCommand('deliver', process.argv.slice(2), runDeliver);
+}
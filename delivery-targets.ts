@@ -0,0 +1,365 @@
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { format, parseISO } from 'date-fns';
+import { DailyReport, ReportMeta } from './report';
+import { RENDERERS, escapeHtml, renderHtmlPage } from './renderers';
+import { formatTime } from './rescuetime';
+import { markdownToHtml } from './dashboard';
+import { httpPost } from './http';
+import { SmtpConfig, SmtpError, sendMail } from './smtp';
+import { formatScore } from './scoring';
+
+dotenv.config();
+
+export type DeliveryType = 'slack' | 'email' | 'webhook';
+
+export const DELIVERY_TYPES: DeliveryType[] = ['slack', 'email', 'webhook'];
+
+// What a target can receive: the AI summary and the daily report
+export type Artifact = 'summary' | 'report';
+
+export const ARTIFACTS: Artifact[] = ['summary', 'report'];
+
+const DEFAULT_RETRIES = 3;
+const SMTP_RETRY_DELAY_MS = 5000;
+
+// Slack rejects section texts longer than this
+const SLACK_SECTION_LIMIT = 3000;
+
+export interface DeliveryTarget {
+  // Unique; deliveries are recorded by target name
+  name: string;
+  type: DeliveryType;
+  artifacts: Artifact[];
+  // Retries after the first attempt
+  retries: number;
+  // slack: the incoming webhook; webhook: the endpoint
+  url?: string;
+  // webhook only
+  headers: Record<string, string>;
+  // email only
+  to: string[];
+  subject?: string;
+}
+
+// What is delivered for one day; an artifact is missing when the target does not want it
+export interface DeliveryContent {
+  date: string;
+  summary?: string;
+  report?: { report: DailyReport; meta: ReportMeta };
+}
+
+// The shape of deliveries.json
+interface DeliveriesFile {
+  targets?: {
+    name?: string;
+    type?: string;
+    artifacts?: string[];
+    retries?: number;
+    url?: string;
+    webhook_url?: string;
+    headers?: Record<string, string>;
+    to?: string | string[];
+    subject?: string;
+  }[];
+}
+
+export function getDeliveryConfigPath(): string {
+  return path.resolve(process.env.DELIVERY_CONFIG || path.join(process.cwd(), 'deliveries.json'));
+}
+
+function isDeliveryType(name: string): name is DeliveryType {
+  return (DELIVERY_TYPES as string[]).includes(name);
+}
+
+function isArtifact(name: string): name is Artifact {
+  return (ARTIFACTS as string[]).includes(name);
+}
+
+/**
+ * Replaces ${NAME} with environment variables, so secrets can stay in .env
+ */
+function expandEnv(value: string, where: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, name) => {
+    const variable = process.env[name];
+    if (variable === undefined) {
+      throw new Error(`${where} uses \${${name}}, which is not set in .env file`);
+    }
+    return variable;
+  });
+}
+
+/**
+ * Reads the delivery targets from deliveries.json (or DELIVERY_CONFIG); none without the file
+ */
+export async function loadDeliveryTargets(): Promise<DeliveryTarget[]> {
+  const configPath = getDeliveryConfigPath();
+
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch (error) {
+    if (process.env.DELIVERY_CONFIG) {
+      throw new Error(`Cannot read DELIVERY_CONFIG file ${configPath}`);
+    }
+    return [];
+  }
+
+  let file: DeliveriesFile;
+  try {
+    file = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${configPath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const names = new Set<string>();
+  return (file.targets || []).map((target, index) => {
+    const where = `${configPath}: target ${target.name ? `"${target.name}"` : index + 1}`;
+    if (!target.name) {
+      throw new Error(`${where} has no name`);
+    }
+    if (names.has(target.name)) {
+      throw new Error(`${configPath}: more than one target is named "${target.name}"`);
+    }
+    names.add(target.name);
+    if (!target.type || !isDeliveryType(target.type)) {
+      throw new Error(`${where}: type must be one of ${DELIVERY_TYPES.join(', ')}, got ${JSON.stringify(target.type)}`);
+    }
+
+    const artifacts = target.artifacts || ARTIFACTS;
+    const unknown = artifacts.filter(artifact => !isArtifact(artifact));
+    if (artifacts.length === 0 || unknown.length > 0) {
+      throw new Error(`${where}: artifacts must be one or more of ${ARTIFACTS.join(', ')}, got ${JSON.stringify(target.artifacts)}`);
+    }
+
+    const url = target.url || target.webhook_url;
+    const to = typeof target.to === 'string' ? [target.to] : target.to || [];
+    if (target.type !== 'email' && !url) {
+      throw new Error(`${where}: a ${target.type} target needs a url`);
+    }
+    if (target.type === 'email' && to.length === 0) {
+      throw new Error(`${where}: an email target needs "to" addresses`);
+    }
+
+    const headers: Record<string, string> = {};
+    Object.entries(target.headers || {}).forEach(([name, value]) => {
+      headers[name] = expandEnv(value, where);
+    });
+
+    const retries = target.retries ?? DEFAULT_RETRIES;
+    if (!Number.isInteger(retries) || retries < 0) {
+      throw new Error(`${where}: retries must be a non-negative integer, got ${JSON.stringify(target.retries)}`);
+    }
+
+    return {
+      name: target.name,
+      type: target.type,
+      artifacts: artifacts as Artifact[],
+      retries,
+      url: url && expandEnv(url, where),
+      headers,
+      to: to.map(address => expandEnv(address, where)),
+      subject: target.subject,
+    };
+  });
+}
+
+/**
+ * Reads the SMTP_* settings email targets are sent with
+ */
+export function resolveSmtpConfig(): SmtpConfig {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM || process.env.SMTP_USER;
+  if (!host || !from) {
+    throw new Error('Email delivery needs SMTP_HOST and SMTP_FROM (or SMTP_USER) in .env file');
+  }
+  const secure = process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : process.env.SMTP_PORT === '465';
+  return {
+    host,
+    port: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT, 10) : secure ? 465 : 587,
+    secure,
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from,
+  };
+}
+
+function getTitle(date: string): string {
+  return `RescueTime report for ${format(parseISO(date), 'EEEE, MMMM do, yyyy')}`;
+}
+
+/**
+ * The numbers worth seeing at a glance, as label and value
+ */
+function getKeyNumbers(report: DailyReport): [string, string][] {
+  const { summary } = report;
+  const numbers: [string, string][] = [
+    ['Tracked', summary.total_duration_formatted],
+    ['Productive', formatTime(summary.productive_seconds)],
+    ['Productivity pulse', `${summary.productivity_pulse}/100`],
+    ...(report.scores || []).map((score): [string, string] => [score.name, formatScore(score.value)]),
+  ];
+  const veryDistracting = report.distribution.find(entry => entry.productivity === -2);
+  if (veryDistracting) {
+    numbers.push(['Very distracting', formatTime(veryDistracting.seconds)]);
+  }
+  if (report.focus) {
+    numbers.push(['Deep work', formatTime(report.focus.deep_work_seconds)]);
+  }
+  if (report.meetings) {
+    numbers.push(['Meetings', formatTime(report.meetings.meeting_seconds)]);
+  }
+  if (report.projects && report.projects.projects.length > 0) {
+    numbers.push(['Top project', report.projects.projects[0].name]);
+  }
+  if (report.goals) {
+    const passed = report.goals.filter(goal => goal.status === 'passed').length;
+    numbers.push(['Goals met', `${passed}/${report.goals.length}`]);
+  }
+  return numbers;
+}
+
+/**
+ * Converts our Markdown to Slack's mrkdwn: bold, headings, links and bullets
+ */
+function toSlackMarkdown(markdown: string): string {
+  return markdown
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\*\*(.+?)\*\*/g, '*$1*')
+    .replace(/^#{1,6}\s+(.*)$/gm, '*$1*')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<$2|$1>')
+    .replace(/^(\s*)[-*]\s+/gm, '$1• ');
+}
+
+/**
+ * Splits text into Slack sections at line breaks
+ */
+function toSlackSections(text: string): object[] {
+  const sections: string[] = [];
+  let current = '';
+  text.split('\n').forEach(line => {
+    if (current && current.length + line.length + 1 > SLACK_SECTION_LIMIT) {
+      sections.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${line.slice(0, SLACK_SECTION_LIMIT)}` : line.slice(0, SLACK_SECTION_LIMIT);
+  });
+  if (current.trim()) {
+    sections.push(current);
+  }
+  return sections.map(section => ({ type: 'section', text: { type: 'mrkdwn', text: section } }));
+}
+
+/**
+ * Builds the Block Kit message: a header, the key numbers and the summary
+ */
+export function buildSlackMessage(content: DeliveryContent): object {
+  const blocks: object[] = [{ type: 'header', text: { type: 'plain_text', text: getTitle(content.date) } }];
+
+  if (content.report) {
+    blocks.push({
+      type: 'section',
+      // Slack shows at most 10 fields
+      fields: getKeyNumbers(content.report.report).slice(0, 10).map(([label, value]) => ({
+        type: 'mrkdwn',
+        text: `*${label}*\n${toSlackMarkdown(value)}`,
+      })),
+    });
+  }
+  if (content.summary) {
+    if (content.report) {
+      blocks.push({ type: 'divider' });
+    }
+    blocks.push(...toSlackSections(toSlackMarkdown(content.summary.trim())));
+  }
+
+  // The text is shown in notifications
+  return { text: getTitle(content.date), blocks };
+}
+
+/**
+ * Builds the email: the HTML report with the summary on top, and a plain-text version
+ */
+export function buildEmail(target: DeliveryTarget, content: DeliveryContent): { subject: string; text: string; html: string } {
+  const subject = (target.subject || 'RescueTime report for {date}').replace(/\{date\}/g, content.date);
+  const summaryHtml = content.summary ? `<h2>AI Summary</h2>\n${markdownToHtml(content.summary)}\n` : '';
+
+  let html: string;
+  if (content.report) {
+    // The summary goes right under the title, before the report's own sections
+    html = RENDERERS.html.render(content.report.report, content.report.meta).replace('</h1>\n', `</h1>\n${summaryHtml}`);
+  } else {
+    html = renderHtmlPage(subject, `<h1>${escapeHtml(getTitle(content.date))}</h1>\n${summaryHtml}`);
+  }
+
+  const text = [
+    getTitle(content.date),
+    '',
+    ...(content.report ? getKeyNumbers(content.report.report).map(([label, value]) => `${label}: ${value}`) : []),
+    ...(content.summary ? ['', 'AI Summary', '', content.summary.trim()] : []),
+  ].join('\n');
+
+  return { subject, text, html };
+}
+
+/**
+ * The generic webhook body; report follows the "JSON output" contract in the README
+ */
+export function buildWebhookPayload(content: DeliveryContent): object {
+  return {
+    date: content.date,
+    summary: content.summary ?? null,
+    report: content.report ? { meta: content.report.meta, data: content.report.report } : null,
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Sends an email, retrying temporary SMTP failures
+ */
+async function sendMailWithRetries(config: SmtpConfig, target: DeliveryTarget, content: DeliveryContent) {
+  const email = buildEmail(target, content);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await sendMail(config, { to: target.to, ...email });
+      return;
+    } catch (error) {
+      if (!(error instanceof SmtpError) || !error.transient || attempt >= target.retries) {
+        throw error;
+      }
+      const delay = SMTP_RETRY_DELAY_MS * (attempt + 1);
+      console.warn(`⚠️ ${error.message}, retrying in ${delay / 1000}s...`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Sends one day's content to a target; email targets need the SMTP settings
+ */
+export async function deliver(target: DeliveryTarget, content: DeliveryContent, smtp: SmtpConfig | null): Promise<void> {
+  switch (target.type) {
+    case 'slack':
+      await httpPost(target.url!, buildSlackMessage(content), { retries: target.retries, idempotent: false });
+      break;
+    case 'email':
+      if (!smtp) {
+        throw new Error('Email delivery needs the SMTP settings');
+      }
+      await sendMailWithRetries(smtp, target, content);
+      break;
+    case 'webhook':
+      await httpPost(target.url!, buildWebhookPayload(content), {
+        retries: target.retries,
+        idempotent: false,
+        headers: { 'Content-Type': 'application/json', ...target.headers },
+      });
+      break;
+  }
+}
@@ -0,0 +1,160 @@
+import * as dotenv from 'dotenv';
+import { ActivityInterval } from './rescuetime';
+import { compareHours } from './timezone';
+
+dotenv.config();
+
+// RescueTime's interval perspective reports 5-minute intervals
+const INTERVAL_SECONDS = 300;
+
+// Activities below this within an interval are noise (a notification, an alt-tab), not a switch
+const MIN_SWITCH_SECONDS = 10;
+
+const DEFAULT_MIN_BLOCK_MINUTES = 30;
+const DEFAULT_PRODUCTIVE_SHARE = 0.8;
+
+export interface FocusOptions {
+  // Shortest run of focused intervals counted as a deep-work block
+  minBlockMinutes: number;
+  // An interval is focused when productive time is at least this share of it
+  productiveShare: number;
+}
+
+export interface FocusStretch {
+  // "HH:mm"
+  start: string;
+  end: string;
+  seconds: number;
+}
+
+export interface HourSwitches {
+  hour: string;
+  switches: number;
+}
+
+export interface FocusAnalysis {
+  // Sorted by start time
+  deep_work_blocks: FocusStretch[];
+  deep_work_seconds: number;
+  // Null when no interval was focused
+  longest_focus: FocusStretch | null;
+  // Sorted by hour
+  context_switches: HourSwitches[];
+  total_context_switches: number;
+  // 0-100: the share of productive time outside deep-work blocks
+  fragmentation_score: number;
+}
+
+interface Interval {
+  start: number;
+  hour: string;
+  time: string;
+  productiveSeconds: number;
+  // Activities with enough time to count, longest first
+  activities: string[];
+}
+
+/**
+ * Reads FOCUS_MIN_BLOCK_MINUTES and FOCUS_PRODUCTIVE_SHARE
+ */
+export function resolveFocusOptions(): FocusOptions {
+  const minBlockMinutes = process.env.FOCUS_MIN_BLOCK_MINUTES ? parseInt(process.env.FOCUS_MIN_BLOCK_MINUTES, 10) : DEFAULT_MIN_BLOCK_MINUTES;
+  const productiveShare = process.env.FOCUS_PRODUCTIVE_SHARE ? Number(process.env.FOCUS_PRODUCTIVE_SHARE) : DEFAULT_PRODUCTIVE_SHARE;
+
+  if (!(minBlockMinutes > 0)) {
+    throw new Error('FOCUS_MIN_BLOCK_MINUTES must be a positive integer');
+  }
+  if (!(productiveShare > 0 && productiveShare <= 1)) {
+    throw new Error('FOCUS_PRODUCTIVE_SHARE must be a number between 0 and 1');
+  }
+  return { minBlockMinutes, productiveShare };
+}
+
+/**
+ * Groups activity rows into intervals, in time order
+ */
+function toIntervals(rows: ActivityInterval[]): Interval[] {
+  const byTime: Record<string, ActivityInterval[]> = {};
+  rows.forEach(row => {
+    (byTime[row.time] = byTime[row.time] || []).push(row);
+  });
+
+  return Object.keys(byTime).sort().map(time => {
+    const intervalRows = byTime[time].sort((a, b) => b.time_spent_seconds - a.time_spent_seconds);
+    return {
+      // Timestamps are local times without a zone
+      start: new Date(time).getTime(),
+      hour: `${time.slice(11, 13)}:00`,
+      time: time.slice(11, 16),
+      productiveSeconds: intervalRows
+        .filter(row => row.productivity > 0)
+        .reduce((total, row) => total + row.time_spent_seconds, 0),
+      activities: intervalRows.filter(row => row.time_spent_seconds >= MIN_SWITCH_SECONDS).map(row => row.activity),
+    };
+  });
+}
+
+function isAdjacent(previous: Interval | undefined, interval: Interval): boolean {
+  return !!previous && interval.start - previous.start === INTERVAL_SECONDS * 1000;
+}
+
+function toStretch(run: Interval[]): FocusStretch {
+  const end = new Date(run[run.length - 1].start + INTERVAL_SECONDS * 1000);
+  return {
+    start: run[0].time,
+    end: `${String(end.getHours()).padStart(2, '0')}:${String(end.getMinutes()).padStart(2, '0')}`,
+    seconds: run.length * INTERVAL_SECONDS,
+  };
+}
+
+/**
+ * Derives deep-work blocks, context switches and fragmentation from 5-minute activity data.
+ * Returns null without interval data.
+ */
+export function analyzeFocus(rows: ActivityInterval[], options: FocusOptions): FocusAnalysis | null {
+  const intervals = toIntervals(rows);
+  if (intervals.length === 0) {
+    return null;
+  }
+
+  // Runs of consecutive focused intervals
+  const runs: Interval[][] = [];
+  intervals.forEach((interval, index) => {
+    if (interval.productiveSeconds < options.productiveShare * INTERVAL_SECONDS) {
+      return;
+    }
+    const current = runs[runs.length - 1];
+    if (current && current[current.length - 1] === intervals[index - 1] && isAdjacent(intervals[index - 1], interval)) {
+      current.push(interval);
+    } else {
+      runs.push([interval]);
+    }
+  });
+
+  const blocks = runs.filter(run => run.length * INTERVAL_SECONDS >= options.minBlockMinutes * 60);
+  const longest = runs.reduce<Interval[] | null>((best, run) => (!best || run.length > best.length ? run : best), null);
+
+  // Each extra activity in an interval is at least one switch, and so is a new main activity
+  const switchesByHour: Record<string, number> = {};
+  intervals.forEach((interval, index) => {
+    const previous = intervals[index - 1];
+    let switches = Math.max(0, interval.activities.length - 1);
+    if (isAdjacent(previous, interval) && previous.activities[0] && interval.activities[0] !== previous.activities[0]) {
+      switches++;
+    }
+    switchesByHour[interval.hour] = (switchesByHour[interval.hour] || 0) + switches;
+  });
+
+  const productiveSeconds = intervals.reduce((total, interval) => total + interval.productiveSeconds, 0);
+  const deepWorkProductiveSeconds = blocks.flat().reduce((total, interval) => total + interval.productiveSeconds, 0);
+  const contextSwitches = Object.keys(switchesByHour).sort(compareHours).map(hour => ({ hour, switches: switchesByHour[hour] }));
+
+  return {
+    deep_work_blocks: blocks.map(toStretch),
+    deep_work_seconds: blocks.reduce((total, run) => total + run.length * INTERVAL_SECONDS, 0),
+    longest_focus: longest && toStretch(longest),
+    context_switches: contextSwitches,
+    total_context_switches: contextSwitches.reduce((total, hour) => total + hour.switches, 0),
+    fragmentation_score: productiveSeconds > 0 ? Math.round(100 * (1 - deepWorkProductiveSeconds / productiveSeconds)) : 100,
+  };
+}
@@ -0,0 +1,38 @@
+// Front matter is a block of `key: value` lines between two `---` lines at the top of a file
+
+/**
+ * Formats a front matter block, skipping undefined values
+ */
+export function formatFrontMatter(fields: Record<string, string | number | boolean | undefined>): string {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${value}`);
+  return `---\n${lines.join('\n')}\n---\n\n`;
+}
+
+/**
+ * Splits a file into its front matter fields and the content after it
+ */
+export function parseFrontMatter(content: string): { fields: Record<string, string>; body: string } {
+  const match = content.match(/^---\n([\s\S]*?)\n---\n*/);
+  if (!match) {
+    return { fields: {}, body: content };
+  }
+
+  const fields: Record<string, string> = {};
+  match[1].split('\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      fields[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  });
+
+  return { fields, body: content.slice(match[0].length) };
+}
+
+/**
+ * Returns the content without its front matter
+ */
+export function stripFrontMatter(content: string): string {
+  return parseFrontMatter(content).body;
+}
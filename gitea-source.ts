@@ -0,0 +1,192 @@
+import { format, parseISO, eachDayOfInterval } from 'date-fns';
+import { DateRange } from './cli-args';
+import { HttpError, RateLimitError, httpGet } from './http';
+import {
+  ActivityItem,
+  Commit,
+  CommitSource,
+  CommitSourceConfig,
+  fetchAllPages,
+  getConfiguredAuthorEmails,
+  getEnvPrefix,
+  getNextPageFromLink,
+  toExcerpt,
+} from './commit-sources';
+
+interface GiteaUser {
+  login: string;
+  full_name: string;
+  email: string;
+}
+
+interface GiteaRepository {
+  name: string;
+  full_name: string;
+  html_url: string;
+  owner: {
+    login: string;
+  };
+  empty?: boolean;
+}
+
+interface GiteaCommit {
+  sha: string;
+  html_url: string;
+  commit: {
+    author: {
+      name: string;
+      email: string;
+      date: string;
+    };
+    message: string;
+  };
+  // The linked account, when the author email belongs to one
+  author: { login: string } | null;
+}
+
+interface GiteaActivity {
+  op_type: string;
+  created: string;
+  // "<number>|<title or comment>" for issue and pull request operations
+  content: string;
+  repo: {
+    full_name: string;
+    html_url: string;
+  };
+  comment?: {
+    body: string;
+    html_url: string;
+  } | null;
+}
+
+const OPERATION_KINDS: Record<string, ActivityItem['kind']> = {
+  create_pull_request: 'pr_opened',
+  merge_pull_request: 'pr_merged',
+  auto_merge_pull_request: 'pr_merged',
+  approve_pull_request: 'pr_approved',
+  reject_pull_request: 'pr_changes_requested',
+  comment_pull: 'review_comment',
+  create_issue: 'issue_opened',
+  close_issue: 'issue_closed',
+  comment_issue: 'issue_comment',
+};
+
+// Gitea caps page sizes at its MAX_RESPONSE_ITEMS setting, 50 by default
+const GITEA_PAGE_SIZE = 50;
+
+/**
+ * Commits by the token's user in every repository they can access.
+ * Also works for Forgejo, which shares Gitea's API.
+ */
+export function createGiteaSource(config: CommitSourceConfig): CommitSource {
+  const apiUrl = `${config.url}/api/v1`;
+  const prefix = getEnvPrefix(config.name);
+  if (!config.token) {
+    throw new Error(`Set ${prefix}_TOKEN to a Gitea access token with read access to repositories and user`);
+  }
+
+  const headers = { Authorization: `token ${config.token}` };
+
+  const fetchPages = <T>(url: string, params: Record<string, unknown> = {}) =>
+    fetchAllPages<T>(url, {
+      params,
+      headers,
+      pageSizeParam: 'limit',
+      pageSize: GITEA_PAGE_SIZE,
+      getNextPage: getNextPageFromLink,
+    });
+
+  async function fetchRepoCommits(repo: GiteaRepository, range: DateRange): Promise<GiteaCommit[]> {
+    try {
+      // since/until need Gitea 1.21; older versions return all commits, filtered by date later
+      return await fetchPages<GiteaCommit>(`${apiUrl}/repos/${repo.owner.login}/${repo.name}/commits`, {
+        since: `${range.from}T00:00:00Z`,
+        until: `${range.to}T23:59:59Z`,
+        stat: false,
+        verification: false,
+        files: false,
+      });
+    } catch (error) {
+      // Empty repositories answer 409, disabled code units 404
+      if (error instanceof HttpError && !(error instanceof RateLimitError) &&
+          error.status !== undefined && [403, 404, 409].includes(error.status)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async function fetchActivity(range: DateRange): Promise<ActivityItem[]> {
+    const user = (await httpGet<GiteaUser>(`${apiUrl}/user`, { headers })).data;
+    const items: ActivityItem[] = [];
+
+    // The feed is filtered one day at a time (Gitea 1.20 or later)
+    for (const day of eachDayOfInterval({ start: parseISO(range.from), end: parseISO(range.to) })) {
+      const activities = await fetchPages<GiteaActivity>(`${apiUrl}/users/${user.login}/activities/feeds`, {
+        'only-performed-by': true,
+        date: format(day, 'yyyy-MM-dd'),
+      });
+
+      activities.forEach(activity => {
+        const kind = OPERATION_KINDS[activity.op_type];
+        const [number, ...rest] = activity.content.split('|');
+        if (!kind || isNaN(Number(number))) {
+          return;
+        }
+
+        const isPullRequest = kind.startsWith('pr_') || kind === 'review_comment';
+        const text = rest.join('|');
+        items.push({
+          kind,
+          date: activity.created,
+          repository: activity.repo.full_name,
+          number: Number(number),
+          // Comment operations carry the comment instead of the title
+          title: activity.comment ? '' : text,
+          url: activity.comment?.html_url || `${activity.repo.html_url}/${isPullRequest ? 'pulls' : 'issues'}/${number}`,
+          excerpt: activity.comment ? toExcerpt(activity.comment.body || text) : undefined,
+        });
+      });
+    }
+
+    console.log(`Found ${items.length} pull request, review and issue events on ${config.url}.`);
+    return items;
+  }
+
+  return {
+    label: `${config.name} (${config.url})`,
+
+    async fetchCommits(range) {
+      const user = (await httpGet<GiteaUser>(`${apiUrl}/user`, { headers })).data;
+      const emails = new Set([user.email, ...getConfiguredAuthorEmails()].map(email => email.toLowerCase()));
+      console.log(`Fetching commits for ${user.login} on ${config.url} from ${range.from} to ${range.to}...`);
+
+      const repos = (await fetchPages<GiteaRepository>(`${apiUrl}/user/repos`)).filter(repo => !repo.empty);
+      console.log(`Processing ${repos.length} repositories...`);
+
+      const commits: Commit[] = [];
+      for (const repo of repos) {
+        const repoCommits = await fetchRepoCommits(repo, range);
+        repoCommits
+          .filter(commit => commit.author?.login === user.login || emails.has(commit.commit.author.email.toLowerCase()))
+          .forEach(commit => commits.push({
+            sha: commit.sha,
+            author_name: commit.commit.author.name,
+            date: commit.commit.author.date,
+            message: commit.commit.message,
+            html_url: commit.html_url,
+            repository: {
+              name: repo.name,
+              full_name: repo.full_name,
+              html_url: repo.html_url,
+            },
+          }));
+      }
+
+      console.log(`Found ${commits.length} commits on ${config.url}.`);
+      return commits;
+    },
+
+    fetchActivity,
+  };
+}
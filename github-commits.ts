@@ -1,264 +1,98 @@
-import axios from 'axios';
-import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { format, parseISO, subDays } from 'date-fns';
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
+import { CliArgs, DateRange, runCommand, resolveDateRange, getDatesInRange, getLastMonthRange } from './cli-args';
+import { ActivityItem, Commit, CommitSource, CommitSourceConfig, mergeCommits, resolveCommitSourceConfigs } from './commit-sources';
+import { writeActivityFiles } from './activity';
+import { createGitHubSource } from './github-source';
+import { createGitLabSource } from './gitlab-source';
+import { createGiteaSource } from './gitea-source';
+import { createLocalSource, resolveLocalGitConfig } from './local-commits';
+import { getDayOfInstant, getNextDate } from './timezone';
 
 dotenv.config();
 
-// GitHub API configuration
-const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
-const GITHUB_USERNAME = process.env.GITHUB_USERNAME || 'your-github-username';
-
-// Date range for fetching commits (current month only)
-const endDate = new Date();
-endDate.setMonth(endDate.getMonth() - 1);
-const actualEndDate = endOfMonth(endDate);
-const startDate = startOfMonth(endDate);
-
-interface GitHubCommit {
-  sha: string;
-  commit: {
-    author: {
-      name: string;
-      date: string;
-    };
-    message: string;
-  };
-  html_url: string;
-  repository: {
-    name: string;
-    full_name?: string;
-    html_url?: string;
-  };
-}
-
-interface Repository {
-  name: string;
-  full_name: string;
-  owner: {
-    login: string;
-  };
-}
-
-interface Organization {
-  login: string;
-}
-
-// Check if a rate limit is exceeded
-function checkRateLimit(error: any) {
-  if (error.response && error.response.status === 403) {
-    console.log('⚠️ GitHub API rate limit exceeded. Try again later or use a personal access token.');
-    console.log(`Reset time: ${new Date(error.response.headers['x-ratelimit-reset'] * 1000).toLocaleString()}`);
-  } else if (error.response) {
-    console.error(`Error (${error.response.status}): ${error.response.data.message || 'Unknown error'}`);
-  } else {
-    console.error('Network error:', error.message);
+/**
+ * Creates the client for a configured forge instance
+ */
+function createCommitSource(config: CommitSourceConfig): CommitSource {
+  switch (config.type) {
+    case 'github':
+      return createGitHubSource(config);
+    case 'gitlab':
+      return createGitLabSource(config);
+    case 'gitea':
+      return createGiteaSource(config);
   }
 }
 
-async function fetchAllPagesFromAPI<T>(url: string, params: any = {}, headers: any = {}): Promise<T[]> {
-  let page = 1;
-  let hasNextPage = true;
-  const allResults: T[] = [];
-  const baseParams = { ...params, per_page: 100 }; // Max items per page
-
-  while (hasNextPage) {
-    try {
-      const response = await axios.get(url, {
-        params: { ...baseParams, page },
-        headers: {
-          ...headers,
-          Authorization: GITHUB_TOKEN ? `Bearer ${GITHUB_TOKEN}` : undefined,
-          Accept: 'application/vnd.github.v3+json',
-        },
-      });
+/**
+ * Runs the commits command for the selected dates, or last month by default
+ */
+export async function runCommits(args: CliArgs) {
+  const range = resolveDateRange(args) || getLastMonthRange();
+  const localGit = await resolveLocalGitConfig();
 
-      const currentPageResults = response.data;
-      
-      // For search API, the items are in the 'items' property
-      const results = Array.isArray(currentPageResults) ? currentPageResults : currentPageResults.items;
-      
-      if (!results || results.length === 0) {
-        hasNextPage = false;
-      } else {
-        allResults.push(...results);
-        page++;
-        
-        // Check if we've reached the last page by looking at Link headers
-        const linkHeader = response.headers.link;
-        if (!linkHeader || !linkHeader.includes('rel="next"')) {
-          hasNextPage = false;
-        }
-        
-        // Add a small delay to avoid hitting rate limits
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-    } catch (error) {
-      checkRateLimit(error);
-      hasNextPage = false;
-    }
+  const sources = resolveCommitSourceConfigs().map(createCommitSource);
+  if (localGit.directories.length > 0) {
+    sources.push(createLocalSource(localGit));
   }
 
-  return allResults;
-}
-
-async function fetchUserOrganizations(): Promise<Organization[]> {
-  return await fetchAllPagesFromAPI<Organization>(`https://api.github.com/users/${GITHUB_USERNAME}/orgs`);
-}
-
-async function fetchOrganizationRepositories(orgName: string): Promise<Repository[]> {
-  return await fetchAllPagesFromAPI<Repository>(`https://api.github.com/orgs/${orgName}/repos`);
-}
-
-async function fetchUserRepositories(): Promise<Repository[]> {
-  return await fetchAllPagesFromAPI<Repository>(`https://api.github.com/users/${GITHUB_USERNAME}/repos`);
-}
-
-async function fetchCommitsForRepo(owner: string, repo: string): Promise<GitHubCommit[]> {
-  const since = format(startDate, 'yyyy-MM-dd');
-  try {
-    const commits = await fetchAllPagesFromAPI<any>(
-      `https://api.github.com/repos/${owner}/${repo}/commits`,
-      {
-        since: `${since}T00:00:00Z`,
-        author: GITHUB_USERNAME,
-      }
-    );
-
-    // Add repository info to each commit
-    return commits.map((commit: any) => ({
-      ...commit,
-      repository: { 
-        name: repo,
-        full_name: `${owner}/${repo}`,
-        html_url: `https://github.com/${owner}/${repo}`
-      }
-    }));
-  } catch (error) {
-    // Just return empty array for repos with errors (might be private, etc)
-    return [];
+  if (sources.length === 0) {
+    console.log('⚠️ Please set GITHUB_USERNAME, COMMIT_SOURCES and/or LOCAL_GIT_DIRS in .env file');
+    return;
   }
-}
-
-async function searchUserCommits(): Promise<GitHubCommit[]> {
-  const since = format(startDate, 'yyyy-MM-dd');
-  try {
-    const query = `author:${GITHUB_USERNAME} committer-date:>=${since}`;
-    console.log(`Searching for commits with query: ${query}`);
-    
-    // Use the search API with pagination
-    const searchResults = await fetchAllPagesFromAPI<any>(
-      'https://api.github.com/search/commits',
-      {
-        q: query,
-        sort: 'committer-date',
-        order: 'desc',
-      },
-      {
-        Accept: 'application/vnd.github.cloak-preview',  // Required for commits search
-      }
-    );
 
-    // Because fetchAllPagesFromAPI already extracts the 'items', we're getting the search items directly
-    console.log(`Found ${searchResults.length} commits via search API.`);
-    
-    return searchResults.map((item: any) => {
-      const repoFullName = item.repository.full_name;
-      const [owner, repoName] = repoFullName.split('/');
-      
-      return {
-        sha: item.sha,
-        commit: {
-          author: {
-            name: item.commit.author.name,
-            date: item.commit.author.date,
-          },
-          message: item.commit.message,
-        },
-        html_url: item.html_url,
-        repository: {
-          name: repoName,
-          full_name: repoFullName,
-          html_url: item.repository.html_url,
-        }
-      };
-    });
-  } catch (error) {
-    checkRateLimit(error);
-    console.warn('Search API error. Falling back to repository iteration approach.');
-    return [];
-  }
-}
+  const labels = sources.map(source => source.label).join(', ');
+  // Pull requests, reviews and issues come from the forges, not local repositories
+  const activitySources = args.activity ? sources.filter(source => source.fetchActivity) : [];
+  const activityLabels = activitySources.map(source => source.label).join(', ');
 
-async function main() {
-  if (!GITHUB_TOKEN) {
-    console.log('⚠️ No GITHUB_TOKEN found in .env file. Rate limits may apply.');
-    console.log('Create a token at https://github.com/settings/tokens and add it to .env as GITHUB_TOKEN=your_token');
-    console.log('For best results, the token should have "repo" scope access.');
-  }
-  
-  if (GITHUB_USERNAME === 'your-github-username') {
-    console.log('⚠️ Please set your GITHUB_USERNAME in .env file');
+  if (args.dryRun) {
+    console.log(`Would collect commits from ${labels} from ${range.from} to ${range.to} into context/commits/`);
+    if (activitySources.length > 0) {
+      console.log(`Would collect pull request, review and issue activity from ${activityLabels} into context/activity/`);
+    }
     return;
   }
 
-  console.log(`Fetching commits for ${GITHUB_USERNAME} from ${format(startDate, 'yyyy-MM-dd')} to ${format(actualEndDate, 'yyyy-MM-dd')}...`);
+  // Sources filter by UTC or server dates, so ask for a day more on each side;
+  // commits are sorted into days by TIMEZONE and DAY_START below
+  const fetchRange: DateRange = {
+    from: format(subDays(parseISO(range.from), 1), 'yyyy-MM-dd'),
+    to: getNextDate(range.to),
+    kind: 'range',
+  };
 
-  // Approach 1: Use Search API (most comprehensive but could hit rate limits)
-  let allCommits: GitHubCommit[] = [];
-  
-  try {
-    const searchCommits = await searchUserCommits();
-    if (searchCommits.length > 0) {
-      allCommits = searchCommits;
-      console.log(`Successfully found ${allCommits.length} commits via Search API.`);
-    } else {
-      throw new Error('Search API returned no results. Falling back to repository iteration.');
+  // Any failed source stops the run, so day files never lose commits they had before.
+  // Earlier sources win when several have a commit, e.g. GitHub over a local clone.
+  const commitLists: Commit[][] = [];
+  for (const source of sources) {
+    try {
+      commitLists.push(await source.fetchCommits(fetchRange));
+    } catch (error) {
+      throw new Error(`Failed to fetch commits from ${source.label}: ${error instanceof Error ? error.message : error}`);
     }
-  } catch (error) {
-    console.log('Falling back to direct repository iteration approach...');
-    
-    // Approach 2: Iterate through repositories (personal + organizations)
-    // 1. Get user's repositories
-    const userRepos = await fetchUserRepositories();
-    console.log(`Found ${userRepos.length} personal repositories`);
-    
-    // 2. Get organizations the user belongs to
-    const orgs = await fetchUserOrganizations();
-    console.log(`Found ${orgs.length} organizations: ${orgs.map(o => o.login).join(', ')}`);
-    
-    // 3. Get repositories from each organization
-    const orgReposPromises = orgs.map(org => fetchOrganizationRepositories(org.login));
-    const orgReposArrays = await Promise.all(orgReposPromises);
-    const orgRepos = orgReposArrays.flat();
-    console.log(`Found ${orgRepos.length} repositories from organizations`);
-    
-    // 4. Combine all repositories
-    const allRepos = [...userRepos, ...orgRepos];
-    console.log(`Processing ${allRepos.length} total repositories...`);
-    
-    // 5. Fetch commits for each repository in parallel (with throttling to avoid rate limits)
-    const commitsPromises = allRepos.map(repo => 
-      fetchCommitsForRepo(repo.owner.login, repo.name)
-    );
-    
-    const commitsArrays = await Promise.all(commitsPromises);
-    allCommits = commitsArrays.flat();
   }
-  
+  const allCommits = mergeCommits(...commitLists);
+
   // Sort all commits by date (newest first)
-  const commits = allCommits.sort((a, b) => 
-    new Date(b.commit.author.date).getTime() - new Date(a.commit.author.date).getTime()
+  const commits = allCommits.sort((a, b) =>
+    new Date(b.date).getTime() - new Date(a.date).getTime()
   );
 
-  console.log(`Found a total of ${commits.length} commits in the last month\n`);
+  console.log(`Found a total of ${commits.length} commits from ${fetchRange.from} to ${fetchRange.to}\n`);
 
   // Group commits by date
-  const commitsByDate: Record<string, GitHubCommit[]> = {};
+  const commitsByDate: Record<string, Commit[]> = {};
   
   commits.forEach(commit => {
-    const date = format(new Date(commit.commit.author.date), 'yyyy-MM-dd');
+    const date = getDayOfInstant(commit.date);
+    // The sources were asked for a wider range, so drop commits outside it
+    if (date < range.from || date > range.to) {
+      return;
+    }
     if (!commitsByDate[date]) {
       commitsByDate[date] = [];
     }
@@ -278,11 +112,11 @@ async function main() {
     const dayCommits = commitsByDate[date];
     
     // Create report for this specific day
-    const report = [`# GitHub Commits Report - ${date}\n`];
-    report.push(`User: ${GITHUB_USERNAME}\n`);
+    const report = [`# Commits Report - ${date}\n`];
+    report.push(`Sources: ${labels}\n`);
     report.push(`Total Commits: ${dayCommits.length}\n`);
     
-    const repoCommits: Record<string, GitHubCommit[]> = {};
+    const repoCommits: Record<string, Commit[]> = {};
     dayCommits.forEach(commit => {
       const repoFullName = commit.repository.full_name || commit.repository.name;
       if (!repoCommits[repoFullName]) {
@@ -296,8 +130,9 @@ async function main() {
       
       repoCommits[repoName].forEach(commit => {
         const shortSha = commit.sha.substring(0, 7);
-        const message = commit.commit.message.split('\n')[0]; // First line of commit message
-        report.push(`- [${shortSha}](${commit.html_url}) ${message}`);
+        const message = commit.message.split('\n')[0]; // First line of commit message
+        // Commits from local-only repositories have no web page to link to
+        report.push(commit.html_url ? `- [${shortSha}](${commit.html_url}) ${message}` : `- \`${shortSha}\` ${message}`);
       });
       
       report.push('');
@@ -308,12 +143,34 @@ async function main() {
     fs.writeFileSync(reportPath, report.join('\n'));
     savedFiles.push(reportPath);
   });
+
+  // Days without commits now, e.g. after a TIMEZONE change or a removed source, lose their old file
+  getDatesInRange(range).filter(date => !commitsByDate[date]).forEach(date => {
+    fs.rmSync(path.join(reportsDir, `github-commits-${date}.md`), { force: true });
+  });
   
   console.log(`Saved ${savedFiles.length} daily reports:`);
   savedFiles.forEach(file => console.log(`  - ${file}`));
+
+  if (activitySources.length === 0) {
+    return;
+  }
+
+  // Same rule as commits: a failed source leaves the activity files untouched
+  const activity: ActivityItem[] = [];
+  for (const source of activitySources) {
+    try {
+      activity.push(...await source.fetchActivity!(fetchRange));
+    } catch (error) {
+      throw new Error(`Failed to fetch activity from ${source.label}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const activityFiles = await writeActivityFiles(activity, range, activityLabels);
+  console.log(`Saved ${activityFiles.length} daily activity files:`);
+  activityFiles.forEach(file => console.log(`  - ${file}`));
 }
 
-main().catch(error => {
-  console.error('Error:', error);
-  process.exit(1);
-});
\ No newline at end of file
+if (require.main === module) {
+  runCommand('commits', process.argv.slice(2), runCommits);
+}
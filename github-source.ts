@@ -0,0 +1,303 @@
+import { DateRange } from './cli-args';
+import { HttpError, RateLimitError, httpGet } from './http';
+import {
+  ActivityItem,
+  Commit,
+  CommitSource,
+  CommitSourceConfig,
+  fetchAllPages,
+  getEnvPrefix,
+  getNextPageFromLink,
+  toExcerpt,
+} from './commit-sources';
+
+interface GitHubCommit {
+  sha: string;
+  commit: {
+    author: {
+      name: string;
+      date: string;
+    };
+    message: string;
+  };
+  html_url: string;
+}
+
+interface Repository {
+  name: string;
+  full_name: string;
+  html_url: string;
+  owner: {
+    login: string;
+  };
+}
+
+interface Organization {
+  login: string;
+}
+
+// A pull request or issue from the issues search API
+interface SearchIssue {
+  number: number;
+  title: string;
+  html_url: string;
+  repository_url: string;
+  created_at: string;
+  closed_at: string | null;
+  pull_request?: {
+    merged_at: string | null;
+  };
+}
+
+interface Review {
+  user: { login: string } | null;
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+  body: string | null;
+  html_url: string;
+  submitted_at?: string;
+}
+
+interface IssueComment {
+  user: { login: string } | null;
+  body: string;
+  html_url: string;
+  created_at: string;
+}
+
+const REVIEW_KINDS: Partial<Record<Review['state'], ActivityItem['kind']>> = {
+  APPROVED: 'pr_approved',
+  CHANGES_REQUESTED: 'pr_changes_requested',
+  COMMENTED: 'pr_reviewed',
+};
+
+// Explain a failed GitHub request
+function logGitHubError(error: unknown) {
+  if (error instanceof RateLimitError) {
+    console.log('⚠️ GitHub API rate limit exceeded. Try again later or use a personal access token.');
+    if (error.resetAt) {
+      console.log(`Reset time: ${error.resetAt.toLocaleString()}`);
+    }
+  } else if (error instanceof Error) {
+    console.error(error.message);
+  }
+}
+
+/**
+ * github.com has its API on its own host, GitHub Enterprise under /api/v3
+ */
+function getApiUrl(url: string): string {
+  return url === 'https://github.com' ? 'https://api.github.com' : `${url}/api/v3`;
+}
+
+function getRepositoryName(issue: SearchIssue): string {
+  return issue.repository_url.split('/repos/')[1];
+}
+
+function toCommit(commit: GitHubCommit, repository: Commit['repository']): Commit {
+  return {
+    sha: commit.sha,
+    author_name: commit.commit.author.name,
+    date: commit.commit.author.date,
+    message: commit.commit.message,
+    html_url: commit.html_url,
+    repository,
+  };
+}
+
+/**
+ * Commits by the user from the GitHub search API, or by iterating their repositories
+ */
+export function createGitHubSource(config: CommitSourceConfig): CommitSource {
+  const apiUrl = getApiUrl(config.url);
+  const prefix = getEnvPrefix(config.name);
+  const username = config.username;
+  if (!username) {
+    throw new Error(`Set ${prefix}_USERNAME for commit source "${config.name}"`);
+  }
+
+  if (!config.token) {
+    console.log(`⚠️ No ${prefix}_TOKEN found in .env file. Rate limits may apply.`);
+    console.log(`Create a token at ${config.url}/settings/tokens and add it to .env as ${prefix}_TOKEN=your_token`);
+    console.log('For best results, the token should have "repo" scope access.');
+  }
+
+  const authHeaders = {
+    Authorization: config.token ? `Bearer ${config.token}` : undefined,
+    Accept: 'application/vnd.github.v3+json',
+  };
+
+  const fetchPages = <T>(url: string, params: Record<string, unknown> = {}, headers: Record<string, string> = {}) =>
+    fetchAllPages<T>(url, {
+      params,
+      headers: { ...authHeaders, ...headers },
+      pageSizeParam: 'per_page',
+      pageSize: 100, // Max items per page
+      // For search API, the items are in the 'items' property
+      getItems: data => Array.isArray(data) ? data : data.items,
+      getNextPage: getNextPageFromLink,
+    });
+
+  async function fetchCommitsForRepo(repo: Repository, range: DateRange): Promise<Commit[]> {
+    try {
+      const commits = await fetchPages<GitHubCommit>(
+        `${apiUrl}/repos/${repo.owner.login}/${repo.name}/commits`,
+        {
+          since: `${range.from}T00:00:00Z`,
+          until: `${range.to}T23:59:59Z`,
+          author: username,
+        }
+      );
+
+      return commits.map(commit => toCommit(commit, {
+        name: repo.name,
+        full_name: repo.full_name,
+        html_url: repo.html_url,
+      }));
+    } catch (error) {
+      // Repos we can't read (private, empty, disabled) have no commits for us
+      if (error instanceof HttpError && !(error instanceof RateLimitError) &&
+          error.status !== undefined && [403, 404, 409, 451].includes(error.status)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async function searchUserCommits(range: DateRange): Promise<Commit[]> {
+    try {
+      const query = `author:${username} committer-date:${range.from}..${range.to}`;
+      console.log(`Searching for commits with query: ${query}`);
+
+      const searchResults = await fetchPages<any>(
+        `${apiUrl}/search/commits`,
+        {
+          q: query,
+          sort: 'committer-date',
+          order: 'desc',
+        },
+        {
+          Accept: 'application/vnd.github.cloak-preview',  // Required for commits search
+        }
+      );
+
+      console.log(`Found ${searchResults.length} commits via search API.`);
+
+      return searchResults.map((item: any) => toCommit(item, {
+        name: item.repository.full_name.split('/')[1],
+        full_name: item.repository.full_name,
+        html_url: item.repository.html_url,
+      }));
+    } catch (error) {
+      // The search API has its own, lower rate limit, so iterating repositories can still work
+      if (!(error instanceof HttpError)) {
+        throw error;
+      }
+      logGitHubError(error);
+      console.warn('Search API error. Falling back to repository iteration approach.');
+      return [];
+    }
+  }
+
+  const searchIssues = (query: string) => {
+    console.log(`Searching for activity with query: ${query}`);
+    return fetchPages<SearchIssue>(`${apiUrl}/search/issues`, { q: query });
+  };
+
+  const toActivity = (issue: SearchIssue, kind: ActivityItem['kind'], date: string, excerpt?: string): ActivityItem => ({
+    kind,
+    date,
+    repository: getRepositoryName(issue),
+    number: issue.number,
+    title: issue.title,
+    url: issue.html_url,
+    excerpt,
+  });
+
+  async function fetchActivity(range: DateRange): Promise<ActivityItem[]> {
+    const dates = `${range.from}..${range.to}`;
+    const items: ActivityItem[] = [];
+
+    (await searchIssues(`type:pr author:${username} created:${dates}`))
+      .forEach(pr => items.push(toActivity(pr, 'pr_opened', pr.created_at)));
+
+    (await searchIssues(`type:pr author:${username} merged:${dates}`))
+      .filter(pr => pr.pull_request?.merged_at)
+      .forEach(pr => items.push(toActivity(pr, 'pr_merged', pr.pull_request!.merged_at!)));
+
+    (await searchIssues(`type:issue author:${username} created:${dates}`))
+      .forEach(issue => items.push(toActivity(issue, 'issue_opened', issue.created_at)));
+
+    // Search cannot tell who closed an issue, so check each one
+    for (const issue of await searchIssues(`type:issue involves:${username} closed:${dates}`)) {
+      const details = (await httpGet(`${apiUrl}/repos/${getRepositoryName(issue)}/issues/${issue.number}`, { headers: authHeaders })).data;
+      if (details.closed_by?.login?.toLowerCase() === username!.toLowerCase() && issue.closed_at) {
+        items.push(toActivity(issue, 'issue_closed', issue.closed_at));
+      }
+    }
+
+    // Reviews and comments are listed per pull request or issue, then narrowed to ours.
+    // Older ones are dropped with everything else outside the range when the files are written.
+    for (const pr of await searchIssues(`type:pr reviewed-by:${username} updated:>=${range.from}`)) {
+      const reviews = await fetchPages<Review>(`${apiUrl}/repos/${getRepositoryName(pr)}/pulls/${pr.number}/reviews`);
+      reviews
+        .filter(review => review.user?.login.toLowerCase() === username!.toLowerCase() && REVIEW_KINDS[review.state])
+        .filter(review => review.submitted_at)
+        .forEach(review => items.push({
+          ...toActivity(pr, REVIEW_KINDS[review.state]!, review.submitted_at!, toExcerpt(review.body)),
+          url: review.html_url,
+        }));
+    }
+
+    for (const issue of await searchIssues(`commenter:${username} updated:>=${range.from}`)) {
+      const comments = await fetchPages<IssueComment>(
+        `${apiUrl}/repos/${getRepositoryName(issue)}/issues/${issue.number}/comments`,
+        { since: `${range.from}T00:00:00Z` }
+      );
+      comments
+        .filter(comment => comment.user?.login.toLowerCase() === username!.toLowerCase())
+        .forEach(comment => items.push({
+          ...toActivity(issue, issue.pull_request ? 'review_comment' : 'issue_comment', comment.created_at, toExcerpt(comment.body)),
+          url: comment.html_url,
+        }));
+    }
+
+    console.log(`Found ${items.length} pull request, review and issue events.`);
+    return items;
+  }
+
+  return {
+    label: `${config.name} (${username})`,
+
+    async fetchCommits(range) {
+      console.log(`Fetching commits for ${username} from ${range.from} to ${range.to}...`);
+
+      // Approach 1: Use Search API (most comprehensive but could hit rate limits)
+      const searchCommits = await searchUserCommits(range);
+      if (searchCommits.length > 0) {
+        console.log(`Successfully found ${searchCommits.length} commits via Search API.`);
+        return searchCommits;
+      }
+
+      console.log('Falling back to direct repository iteration approach...');
+
+      // Approach 2: Iterate through repositories (personal + organizations)
+      const userRepos = await fetchPages<Repository>(`${apiUrl}/users/${username}/repos`);
+      console.log(`Found ${userRepos.length} personal repositories`);
+
+      const orgs = await fetchPages<Organization>(`${apiUrl}/users/${username}/orgs`);
+      console.log(`Found ${orgs.length} organizations: ${orgs.map(o => o.login).join(', ')}`);
+
+      const orgReposArrays = await Promise.all(orgs.map(org => fetchPages<Repository>(`${apiUrl}/orgs/${org.login}/repos`)));
+      const orgRepos = orgReposArrays.flat();
+      console.log(`Found ${orgRepos.length} repositories from organizations`);
+
+      const allRepos = [...userRepos, ...orgRepos];
+      console.log(`Processing ${allRepos.length} total repositories...`);
+
+      const commitsArrays = await Promise.all(allRepos.map(repo => fetchCommitsForRepo(repo, range)));
+      return commitsArrays.flat();
+    },
+
+    fetchActivity,
+  };
+}
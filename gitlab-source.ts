@@ -0,0 +1,203 @@
+import { format, addDays, subDays, parseISO } from 'date-fns';
+import { DateRange } from './cli-args';
+import { HttpError, RateLimitError, httpGet } from './http';
+import {
+  ActivityItem,
+  Commit,
+  CommitSource,
+  CommitSourceConfig,
+  fetchAllPages,
+  getConfiguredAuthorEmails,
+  getEnvPrefix,
+  toExcerpt,
+} from './commit-sources';
+
+interface GitLabUser {
+  id: number;
+  username: string;
+  name: string;
+  email?: string;
+  commit_email?: string;
+  public_email?: string;
+}
+
+interface GitLabProject {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  web_url: string;
+}
+
+interface GitLabCommit {
+  id: string;
+  message: string;
+  author_name: string;
+  author_email: string;
+  authored_date: string;
+  web_url: string;
+}
+
+interface GitLabEvent {
+  project_id: number;
+  action_name: string;
+  target_type: string | null;
+  target_iid: number | null;
+  target_title: string | null;
+  created_at: string;
+  note?: {
+    body: string;
+    noteable_type: string;
+    noteable_iid: number;
+  };
+}
+
+// Merge requests and issues live under /-/merge_requests and /-/issues of the project
+const TARGET_PATHS: Record<string, string> = {
+  MergeRequest: 'merge_requests',
+  Issue: 'issues',
+};
+
+// Reported events, by target type and action; notes by the type of what they are on
+const EVENT_KINDS: Record<string, ActivityItem['kind']> = {
+  'MergeRequest:opened': 'pr_opened',
+  'MergeRequest:accepted': 'pr_merged',
+  'MergeRequest:approved': 'pr_approved',
+  'Issue:opened': 'issue_opened',
+  'Issue:closed': 'issue_closed',
+  'Note:MergeRequest': 'review_comment',
+  'Note:Issue': 'issue_comment',
+};
+
+/**
+ * Maps a user event to activity, or undefined for events we do not report (pushes, closed MRs, ...)
+ */
+function toActivityKind(event: GitLabEvent): ActivityItem['kind'] | undefined {
+  return EVENT_KINDS[event.note ? `Note:${event.note.noteable_type}` : `${event.target_type}:${event.action_name}`];
+}
+
+/**
+ * Commits by the token's user in every project they are a member of.
+ * GitLab cannot filter commits by user, so they are matched by author email or name.
+ */
+export function createGitLabSource(config: CommitSourceConfig): CommitSource {
+  const apiUrl = `${config.url}/api/v4`;
+  const prefix = getEnvPrefix(config.name);
+  if (!config.token) {
+    throw new Error(`Set ${prefix}_TOKEN to a GitLab personal access token with read_api scope`);
+  }
+
+  const headers = { 'PRIVATE-TOKEN': config.token };
+
+  const fetchPages = <T>(url: string, params: Record<string, unknown> = {}) =>
+    fetchAllPages<T>(url, {
+      params,
+      headers,
+      pageSizeParam: 'per_page',
+      pageSize: 100,
+      // GitLab leaves X-Next-Page empty on the last page
+      getNextPage: response => response.headers['x-next-page'] ? Number(response.headers['x-next-page']) : null,
+    });
+
+  async function fetchProjectCommits(project: GitLabProject, range: DateRange): Promise<GitLabCommit[]> {
+    try {
+      return await fetchPages<GitLabCommit>(`${apiUrl}/projects/${project.id}/repository/commits`, {
+        since: `${range.from}T00:00:00Z`,
+        until: `${range.to}T23:59:59Z`,
+        all: true,
+      });
+    } catch (error) {
+      // Projects without a repository, or with the repository feature disabled
+      if (error instanceof HttpError && !(error instanceof RateLimitError) &&
+          error.status !== undefined && [403, 404].includes(error.status)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async function fetchActivity(range: DateRange): Promise<ActivityItem[]> {
+    const user = (await httpGet<GitLabUser>(`${apiUrl}/user`, { headers })).data;
+
+    // after and before are exclusive dates
+    const events = await fetchPages<GitLabEvent>(`${apiUrl}/users/${user.id}/events`, {
+      after: format(subDays(parseISO(range.from), 1), 'yyyy-MM-dd'),
+      before: format(addDays(parseISO(range.to), 1), 'yyyy-MM-dd'),
+    });
+
+    const projects = new Map<number, GitLabProject>();
+    const items: ActivityItem[] = [];
+
+    for (const event of events) {
+      const kind = toActivityKind(event);
+      const iid = event.note ? event.note.noteable_iid : event.target_iid;
+      if (!kind || iid === null) {
+        continue;
+      }
+
+      if (!projects.has(event.project_id)) {
+        projects.set(event.project_id, (await httpGet<GitLabProject>(`${apiUrl}/projects/${event.project_id}`, { headers })).data);
+      }
+      const project = projects.get(event.project_id)!;
+      const targetPath = TARGET_PATHS[event.note ? event.note.noteable_type : event.target_type!];
+
+      items.push({
+        kind,
+        date: event.created_at,
+        repository: project.path_with_namespace,
+        number: iid,
+        title: event.target_title || '',
+        url: `${project.web_url}/-/${targetPath}/${iid}`,
+        excerpt: toExcerpt(event.note?.body),
+      });
+    }
+
+    console.log(`Found ${items.length} merge request, review and issue events on ${config.url}.`);
+    return items;
+  }
+
+  return {
+    label: `${config.name} (${config.url})`,
+
+    async fetchCommits(range) {
+      const user = (await httpGet<GitLabUser>(`${apiUrl}/user`, { headers })).data;
+      const emails = new Set(
+        [user.email, user.commit_email, user.public_email, ...getConfiguredAuthorEmails()]
+          .filter((email): email is string => !!email)
+          .map(email => email.toLowerCase())
+      );
+      console.log(`Fetching commits for ${user.username} on ${config.url} from ${range.from} to ${range.to}...`);
+
+      // Projects without activity in the range cannot have commits in it
+      const projects = await fetchPages<GitLabProject>(`${apiUrl}/projects`, {
+        membership: true,
+        simple: true,
+        last_activity_after: `${range.from}T00:00:00Z`,
+      });
+      console.log(`Processing ${projects.length} projects...`);
+
+      const commits: Commit[] = [];
+      for (const project of projects) {
+        const projectCommits = await fetchProjectCommits(project, range);
+        projectCommits
+          .filter(commit => emails.has(commit.author_email.toLowerCase()) || commit.author_name === user.name)
+          .forEach(commit => commits.push({
+            sha: commit.id,
+            author_name: commit.author_name,
+            date: commit.authored_date,
+            message: commit.message,
+            html_url: commit.web_url,
+            repository: {
+              name: project.name,
+              full_name: project.path_with_namespace,
+              html_url: project.web_url,
+            },
+          }));
+      }
+
+      console.log(`Found ${commits.length} commits on ${config.url}.`);
+      return commits;
+    },
+
+    fetchActivity,
+  };
+}
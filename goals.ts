@@ -0,0 +1,266 @@
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DailyReport } from './report';
+import { formatTime } from './rescuetime';
+
+dotenv.config();
+
+export type GoalMetric =
+  | 'total'
+  | 'very_productive'
+  | 'productive'
+  | 'neutral'
+  | 'distracting'
+  | 'very_distracting'
+  | 'pulse'
+  | 'deep_work'
+  | 'context_switches'
+  | 'fragmentation'
+  | 'meetings';
+
+// 'no_data' when the report lacks what the metric needs, e.g. focus data or imported meetings
+export type GoalStatus = 'passed' | 'failed' | 'no_data';
+
+export interface Goal {
+  name: string;
+  metric: GoalMetric;
+  // In seconds for durations; at least one of min and max is set
+  min: number | null;
+  max: number | null;
+}
+
+export interface GoalResult extends Goal {
+  // Null when the status is 'no_data'
+  value: number | null;
+  status: GoalStatus;
+  // Days in a row the goal was met, up to and including this one; days without data are skipped
+  streak: number;
+  best_streak: number;
+}
+
+interface MetricDefinition {
+  label: string;
+  // Durations are configured as "4h", "30m" or "1h30m" (or minutes), and reported in seconds
+  duration: boolean;
+  getValue(report: DailyReport): number | null;
+}
+
+function distributionSeconds(productivity: number) {
+  return (report: DailyReport) => report.distribution.find(entry => entry.productivity === productivity)?.seconds ?? 0;
+}
+
+const METRICS: Record<GoalMetric, MetricDefinition> = {
+  total: { label: 'Time tracked', duration: true, getValue: report => report.summary.total_seconds },
+  very_productive: { label: 'Very productive', duration: true, getValue: distributionSeconds(2) },
+  productive: { label: 'Productive', duration: true, getValue: distributionSeconds(1) },
+  neutral: { label: 'Neutral', duration: true, getValue: distributionSeconds(0) },
+  distracting: { label: 'Distracting', duration: true, getValue: distributionSeconds(-1) },
+  very_distracting: { label: 'Very distracting', duration: true, getValue: distributionSeconds(-2) },
+  pulse: { label: 'Productivity pulse', duration: false, getValue: report => report.summary.productivity_pulse },
+  deep_work: { label: 'Deep work', duration: true, getValue: report => report.focus?.deep_work_seconds ?? null },
+  context_switches: { label: 'Context switches', duration: false, getValue: report => report.focus?.total_context_switches ?? null },
+  fragmentation: { label: 'Fragmentation score', duration: false, getValue: report => report.focus?.fragmentation_score ?? null },
+  meetings: { label: 'Meeting time', duration: true, getValue: report => report.meetings?.meeting_seconds ?? null },
+};
+
+// The report command's exit status when a goal was missed; errors exit with 1
+export const GOALS_MISSED_EXIT_CODE = 2;
+
+export const GOAL_METRICS = Object.keys(METRICS) as GoalMetric[];
+
+// The shape of goals.json
+interface GoalsFile {
+  goals?: {
+    name?: string;
+    metric?: string;
+    min?: string | number;
+    max?: string | number;
+  }[];
+}
+
+// The shape of the goal history: goal statuses by date, then by goal name
+interface GoalHistory {
+  days: Record<string, Record<string, GoalStatus>>;
+}
+
+export function getGoalsConfigPath(): string {
+  return path.resolve(process.env.GOALS_CONFIG || path.join(process.cwd(), 'goals.json'));
+}
+
+function getGoalHistoryPath(): string {
+  return path.join(process.cwd(), 'data', 'goals', 'history.json');
+}
+
+function isGoalMetric(name: string): name is GoalMetric {
+  return (GOAL_METRICS as string[]).includes(name);
+}
+
+/**
+ * Parses a target such as "4h", "30m", "1h30m" or 90 (minutes) into seconds
+ */
+function parseDuration(value: string | number): number | null {
+  if (typeof value === 'number') {
+    return value * 60;
+  }
+  const text = value.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Number(text) * 60;
+  }
+  const match = text.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/i);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+  return Math.round(Number(match[1] || 0) * 3600 + Number(match[2] || 0) * 60);
+}
+
+function parseTarget(value: string | number | undefined, metric: GoalMetric, field: string, where: string): number | null {
+  if (value === undefined) {
+    return null;
+  }
+  const parsed = METRICS[metric].duration ? parseDuration(value) : typeof value === 'number' ? value : Number(value);
+  if (parsed === null || !Number.isFinite(parsed) || parsed < 0) {
+    const expected = METRICS[metric].duration ? 'a duration such as "4h" or "30m"' : 'a number';
+    throw new Error(`${where}: ${field} must be ${expected}, got ${JSON.stringify(value)}`);
+  }
+  return parsed;
+}
+
+export function isDurationMetric(metric: GoalMetric): boolean {
+  return METRICS[metric].duration;
+}
+
+/**
+ * Formats a metric value for reports, e.g. "4h 12m" or "72"
+ */
+export function formatGoalValue(metric: GoalMetric, value: number): string {
+  return isDurationMetric(metric) ? formatTime(value) : String(value);
+}
+
+function getDefaultName(metric: GoalMetric, min: number | null, max: number | null): string {
+  const { label } = METRICS[metric];
+  if (min !== null && max !== null) {
+    return `${label} ${formatGoalValue(metric, min)}-${formatGoalValue(metric, max)}`;
+  }
+  return min !== null ? `${label} ≥ ${formatGoalValue(metric, min)}` : `${label} ≤ ${formatGoalValue(metric, max!)}`;
+}
+
+/**
+ * Reads the daily goals from goals.json (or GOALS_CONFIG); none without the file
+ */
+export async function loadGoals(): Promise<Goal[]> {
+  const configPath = getGoalsConfigPath();
+
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch (error) {
+    if (process.env.GOALS_CONFIG) {
+      throw new Error(`Cannot read GOALS_CONFIG file ${configPath}`);
+    }
+    return [];
+  }
+
+  let file: GoalsFile;
+  try {
+    file = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${configPath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const goals = (file.goals || []).map((goal, index) => {
+    const where = `${configPath}: goal ${index + 1}`;
+    if (!goal.metric || !isGoalMetric(goal.metric)) {
+      throw new Error(`${where}: metric must be one of ${GOAL_METRICS.join(', ')}, got ${JSON.stringify(goal.metric)}`);
+    }
+    const min = parseTarget(goal.min, goal.metric, 'min', where);
+    const max = parseTarget(goal.max, goal.metric, 'max', where);
+    if (min === null && max === null) {
+      throw new Error(`${where}: set min, max or both`);
+    }
+    return { name: goal.name || getDefaultName(goal.metric, min, max), metric: goal.metric, min, max };
+  });
+
+  // Streaks are tracked by name
+  const names = new Set<string>();
+  goals.forEach(goal => {
+    if (names.has(goal.name)) {
+      throw new Error(`${configPath}: more than one goal is named "${goal.name}"`);
+    }
+    names.add(goal.name);
+  });
+  return goals;
+}
+
+async function readGoalHistory(): Promise<GoalHistory> {
+  try {
+    const history = JSON.parse(await fs.readFile(getGoalHistoryPath(), 'utf-8'));
+    return { days: history.days || {} };
+  } catch (error) {
+    return { days: {} }; // No history yet, or unreadable
+  }
+}
+
+/**
+ * Counts the current and best run of passed days for a goal, from its history before the date
+ * and its status on the date. Later days are ignored so older reports can be rebuilt.
+ */
+function getStreaks(history: GoalHistory, date: string, name: string, status: GoalStatus): { streak: number; best_streak: number } {
+  const statuses = Object.keys(history.days)
+    .filter(day => day < date)
+    .sort()
+    .map(day => history.days[day][name])
+    .concat(status)
+    .filter(dayStatus => dayStatus === 'passed' || dayStatus === 'failed');
+
+  let streak = 0;
+  let bestStreak = 0;
+  statuses.forEach(dayStatus => {
+    streak = dayStatus === 'passed' ? streak + 1 : 0;
+    bestStreak = Math.max(bestStreak, streak);
+  });
+  return { streak, best_streak: bestStreak };
+}
+
+/**
+ * Checks a report against the goals, with streaks from the goal history.
+ * Returns null when no goals are configured.
+ */
+export async function evaluateGoals(report: DailyReport, goals: Goal[]): Promise<GoalResult[] | null> {
+  if (goals.length === 0) {
+    return null;
+  }
+
+  const history = await readGoalHistory();
+  return goals.map(goal => {
+    const value = METRICS[goal.metric].getValue(report);
+    let status: GoalStatus = 'no_data';
+    if (value !== null) {
+      status = (goal.min === null || value >= goal.min) && (goal.max === null || value <= goal.max) ? 'passed' : 'failed';
+    }
+    return { ...goal, value, status, ...getStreaks(history, report.date, goal.name, status) };
+  });
+}
+
+/**
+ * The names of the goals recorded as failed on a date
+ */
+export async function getRecordedFailures(date: string): Promise<string[]> {
+  const statuses = (await readGoalHistory()).days[date] || {};
+  return Object.keys(statuses).filter(name => statuses[name] === 'failed');
+}
+
+/**
+ * Saves the goal statuses of a date to the history, replacing earlier ones for that date
+ */
+export async function recordGoalResults(date: string, results: GoalResult[]) {
+  const history = await readGoalHistory();
+  history.days[date] = {};
+  results.forEach(result => {
+    history.days[date][result.name] = result.status;
+  });
+
+  const filePath = getGoalHistoryPath();
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(history, null, 2));
+}
@@ -0,0 +1,152 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 4;
+const BASE_DELAY_MS = 500;
+const MAX_BACKOFF_MS = 30000;
+// Waiting longer than this for a rate limit to reset fails the request instead
+const MAX_RATE_LIMIT_WAIT_MS = 120000;
+// Network errors raised before a connection was made, so the server never saw the request
+const UNSENT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+export interface RequestOptions {
+  params?: Record<string, unknown>;
+  headers?: Record<string, string | undefined>;
+  timeoutMs?: number;
+  // Retries after the first attempt, for transient failures only
+  retries?: number;
+  // False when sending twice is not harmless, e.g. posting a message: then only requests the
+  // server never got, or refused with Retry-After, are retried (default true)
+  idempotent?: boolean;
+}
+
+// A request that failed for good: a permanent error, or a transient one that kept failing
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    // Undefined for network errors and timeouts
+    public readonly status?: number,
+    public readonly responseBody?: unknown
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// The API refused the request until its rate limit resets
+export class RateLimitError extends HttpError {
+  constructor(url: string, status: number, public readonly resetAt?: Date) {
+    super(`Rate limit exceeded for ${url}${resetAt ? `, resets at ${resetAt.toLocaleString()}` : ''}`, url, status);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Hides API keys passed as query parameters
+ */
+function redactUrl(url: string): string {
+  return url.replace(/([?&](?:key|api_key|token|access_token)=)[^&]+/gi, '$1***');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Returns how long the server asked us to wait, from Retry-After or GitHub's rate limit headers
+ */
+function getServerDelayMs(headers: Record<string, any>): number | undefined {
+  const retryAfter = headers['retry-after'];
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  if (headers['x-ratelimit-remaining'] === '0' && headers['x-ratelimit-reset'] !== undefined) {
+    return Math.max(0, Number(headers['x-ratelimit-reset']) * 1000 - Date.now());
+  }
+
+  return undefined;
+}
+
+function isRateLimited(status: number, headers: Record<string, any>): boolean {
+  return status === 429 || (status === 403 && headers['x-ratelimit-remaining'] === '0');
+}
+
+/**
+ * Sends a request, retrying network errors, timeouts, 429 and 5xx with exponential backoff.
+ * Requests that are not idempotent are only retried when they certainly were not handled.
+ */
+export async function request<T = any>(config: AxiosRequestConfig, options: RequestOptions = {}): Promise<AxiosResponse<T>> {
+  const url = redactUrl(config.url || '');
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await axios.request<T>({
+        ...config,
+        params: options.params,
+        headers: options.headers,
+        timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      });
+    } catch (error) {
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+
+      const response = error.response;
+      const headers = (response?.headers || {}) as Record<string, any>;
+      const status = response?.status;
+      const transient = !response || status === 429 || (status !== undefined && status >= 500) ||
+        (status !== undefined && isRateLimited(status, headers));
+
+      if (!transient) {
+        const message = (response?.data as any)?.message || (response?.data as any)?.error?.message || error.message;
+        throw new HttpError(`Request to ${url} failed with ${status}: ${message}`, url, status, response?.data);
+      }
+
+      const serverDelay = getServerDelayMs(headers);
+      const rateLimited = status !== undefined && isRateLimited(status, headers);
+
+      // A timeout or server error may come after the request was handled
+      const unsent = response ? rateLimited && serverDelay !== undefined : UNSENT_ERROR_CODES.includes(error.code || '');
+      if (options.idempotent === false && !unsent) {
+        const reason = status !== undefined ? `status ${status}` : error.code || error.message;
+        throw new HttpError(`Request to ${url} failed (${reason}); not retried since it may have been received`, url, status, response?.data);
+      }
+
+      if (rateLimited && serverDelay !== undefined && serverDelay > MAX_RATE_LIMIT_WAIT_MS) {
+        throw new RateLimitError(url, status!, new Date(Date.now() + serverDelay));
+      }
+
+      if (attempt >= retries) {
+        if (rateLimited) {
+          throw new RateLimitError(url, status!, serverDelay !== undefined ? new Date(Date.now() + serverDelay) : undefined);
+        }
+        const reason = status !== undefined ? `status ${status}` : error.code || error.message;
+        throw new HttpError(`Request to ${url} failed after ${attempt + 1} attempts (${reason})`, url, status, response?.data);
+      }
+
+      // Exponential backoff with jitter, unless the server said how long to wait
+      const backoff = Math.min(MAX_BACKOFF_MS, BASE_DELAY_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+      const delay = serverDelay ?? backoff;
+      console.warn(`⚠️ ${status ? `Status ${status}` : error.code || 'Network error'} from ${url}, retrying in ${Math.ceil(delay / 1000)}s...`);
+      await sleep(delay);
+    }
+  }
+}
+
+export function httpGet<T = any>(url: string, options: RequestOptions = {}): Promise<AxiosResponse<T>> {
+  return request<T>({ method: 'GET', url }, options);
+}
+
+export function httpPost<T = any>(url: string, data: unknown, options: RequestOptions = {}): Promise<AxiosResponse<T>> {
+  return request<T>({ method: 'POST', url, data }, options);
+}
@@ -0,0 +1,485 @@
+// A small iCalendar (RFC 5545) reader: events, recurrence rules, exceptions and time zones.
+// Covers what calendar exports from Google, Outlook and Apple Calendar use for meetings.
+
+import { getTimeZone, wallTimeToInstant } from './timezone';
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  all_day: boolean;
+  location?: string;
+  // TENTATIVE or CONFIRMED; cancelled events are dropped
+  status?: string;
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Date-time as written in the file, before applying its time zone
+interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+interface IcsDate {
+  wall: WallTime;
+  // IANA zone, 'UTC', or undefined for floating times (the configured zone)
+  zone?: string;
+  dateOnly: boolean;
+}
+
+interface RawEvent {
+  uid: string;
+  summary: string;
+  location?: string;
+  status?: string;
+  start: IcsDate;
+  end?: IcsDate;
+  durationMs?: number;
+  rrule?: Record<string, string>;
+  exdates: IcsDate[];
+  rdates: IcsDate[];
+  recurrenceId?: IcsDate;
+}
+
+// Periods stepped through per recurring event, so rules without an end cannot loop forever
+const MAX_ITERATIONS = 10000;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Outlook writes Windows zone names; these are the common ones
+const WINDOWS_ZONES: Record<string, string> = {
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Mountain Standard Time': 'America/Denver',
+  'Central Standard Time': 'America/Chicago',
+  'Eastern Standard Time': 'America/New_York',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'FLE Standard Time': 'Europe/Kiev',
+  'GTB Standard Time': 'Europe/Bucharest',
+  'Russian Standard Time': 'Europe/Moscow',
+  'Israel Standard Time': 'Asia/Jerusalem',
+  'India Standard Time': 'Asia/Kolkata',
+  'China Standard Time': 'Asia/Shanghai',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'UTC': 'UTC',
+};
+
+const warnedZones = new Set<string>();
+
+/**
+ * Joins folded lines and splits each into name, parameters and value
+ */
+function parseProperties(content: string): Property[] {
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  return lines.filter(line => line.trim()).map(line => {
+    // The value starts at the first colon outside a quoted parameter value
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') {
+        inQuotes = !inQuotes;
+      } else if (line[i] === ':' && !inQuotes) {
+        colon = i;
+        break;
+      }
+    }
+
+    const head = colon === -1 ? line : line.slice(0, colon);
+    const [name, ...rawParams] = head.split(';');
+    const params: Record<string, string> = {};
+    rawParams.forEach(param => {
+      const separator = param.indexOf('=');
+      if (separator > 0) {
+        params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '');
+      }
+    });
+
+    return { name: name.toUpperCase(), params, value: colon === -1 ? '' : line.slice(colon + 1) };
+  });
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Maps a TZID to an IANA zone Intl understands, or undefined to use the configured zone
+ */
+function resolveZone(tzid: string): string | undefined {
+  const candidates = [tzid, WINDOWS_ZONES[tzid], tzid.replace(/^\/[^/]+\/[^/]+\//, '')].filter(Boolean);
+  for (const zone of candidates) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: zone });
+      return zone;
+    } catch (error) {
+      // Not a zone Intl knows
+    }
+  }
+
+  if (!warnedZones.has(tzid)) {
+    warnedZones.add(tzid);
+    console.warn(`⚠️ Unknown time zone "${tzid}", using ${getTimeZone()}`);
+  }
+  return undefined;
+}
+
+function parseDateValue(value: string, params: Record<string, string>): IcsDate {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid date "${value}"`);
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  const dateOnly = params.VALUE === 'DATE' || match[4] === undefined;
+  return {
+    wall: { year: +year, month: +month, day: +day, hour: +hour, minute: +minute, second: +second },
+    zone: utc ? 'UTC' : (params.TZID && !dateOnly ? resolveZone(params.TZID) : undefined),
+    dateOnly,
+  };
+}
+
+function parseDateList(property: Property): IcsDate[] {
+  return property.value.split(',').filter(Boolean).map(value => parseDateValue(value, property.params));
+}
+
+/**
+ * Parses an ISO 8601 duration such as PT30M, P1D or -PT15M
+ */
+function parseDuration(value: string): number {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}"`);
+  }
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const ms = ((+weeks * 7 + +days) * 86400 + +hours * 3600 + +minutes * 60 + +seconds) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Converts a wall time in a zone to an instant; floating times are in the configured zone
+ */
+function toDate(wall: WallTime, zone = getTimeZone()): Date {
+  const time = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return zone === 'UTC' ? new Date(time) : wallTimeToInstant(time, zone);
+}
+
+function icsToDate(date: IcsDate): Date {
+  return toDate(date.wall, date.zone);
+}
+
+// Wall times are stepped through as UTC dates, which have no DST gaps
+function wallToUtc(wall: WallTime): Date {
+  return new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second));
+}
+
+function utcToWall(date: Date): WallTime {
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Days of a month matching BYDAY entries such as MO, 2TU or -1FR
+ */
+function getMonthDaysByWeekday(year: number, month: number, byDay: string[]): number[] {
+  const days: number[] = [];
+  const length = daysInMonth(year, month);
+
+  byDay.forEach(entry => {
+    const match = entry.match(/^([+-]?\d+)?([A-Z]{2})$/);
+    if (!match) {
+      return;
+    }
+    const weekday = WEEKDAYS.indexOf(match[2]);
+    const matching: number[] = [];
+    for (let day = 1; day <= length; day++) {
+      if (new Date(Date.UTC(year, month - 1, day)).getUTCDay() === weekday) {
+        matching.push(day);
+      }
+    }
+    if (match[1] === undefined) {
+      days.push(...matching);
+    } else {
+      const ordinal = parseInt(match[1], 10);
+      const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      if (day !== undefined) {
+        days.push(day);
+      }
+    }
+  });
+
+  return days;
+}
+
+/**
+ * Candidate start times (as wall times) of one period of a rule, in order
+ */
+function getPeriodCandidates(rule: Record<string, string>, start: WallTime, period: number): WallTime[] {
+  const interval = parseInt(rule.INTERVAL || '1', 10) * period;
+  const base = wallToUtc(start);
+  const byDay = rule.BYDAY ? rule.BYDAY.split(',') : [];
+  const withDate = (year: number, month: number, day: number) => ({ ...start, year, month, day });
+
+  switch (rule.FREQ) {
+    case 'DAILY': {
+      const date = new Date(base.getTime());
+      date.setUTCDate(date.getUTCDate() + interval);
+      // FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR is how "every weekday" is written
+      const weekdays = byDay.map(day => WEEKDAYS.indexOf(day.slice(-2)));
+      return weekdays.length === 0 || weekdays.includes(date.getUTCDay()) ? [utcToWall(date)] : [];
+    }
+
+    case 'WEEKLY': {
+      const date = new Date(base.getTime());
+      date.setUTCDate(date.getUTCDate() + interval * 7);
+      if (byDay.length === 0) {
+        return [utcToWall(date)];
+      }
+      // Days of the week (starting on WKST, Monday by default) containing the period start
+      const weekStart = WEEKDAYS.indexOf(rule.WKST || 'MO');
+      const offset = (date.getUTCDay() - weekStart + 7) % 7;
+      date.setUTCDate(date.getUTCDate() - offset);
+      return byDay
+        .map(day => (WEEKDAYS.indexOf(day.slice(-2)) - weekStart + 7) % 7)
+        .sort((a, b) => a - b)
+        .map(dayOffset => {
+          const candidate = new Date(date.getTime());
+          candidate.setUTCDate(candidate.getUTCDate() + dayOffset);
+          return utcToWall(candidate);
+        });
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = start.month - 1 + interval;
+      const year = start.year + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      const length = daysInMonth(year, month);
+      let days: number[];
+      if (byDay.length > 0) {
+        days = getMonthDaysByWeekday(year, month, byDay);
+      } else if (rule.BYMONTHDAY) {
+        days = rule.BYMONTHDAY.split(',').map(Number).map(day => (day < 0 ? length + day + 1 : day));
+      } else {
+        days = [start.day];
+      }
+      return days
+        .filter(day => day >= 1 && day <= length)
+        .sort((a, b) => a - b)
+        .map(day => withDate(year, month, day));
+    }
+
+    case 'YEARLY': {
+      const year = start.year + interval;
+      // Feb 29 only exists in leap years
+      return start.day <= daysInMonth(year, start.month) ? [withDate(year, start.month, start.day)] : [];
+    }
+
+    default:
+      return [];
+  }
+}
+
+function compareWall(a: WallTime, b: WallTime): number {
+  return wallToUtc(a).getTime() - wallToUtc(b).getTime();
+}
+
+/**
+ * Expands a recurring event into the start times that fall before the end of the range
+ */
+function expandRule(event: RawEvent, rangeEnd: Date): IcsDate[] {
+  const rule = event.rrule!;
+  const count = rule.COUNT ? parseInt(rule.COUNT, 10) : undefined;
+  // UNTIL is inclusive; a date-only UNTIL covers that whole day, a floating one is in the event's zone
+  const untilValue = rule.UNTIL ? parseDateValue(rule.UNTIL, {}) : undefined;
+  const until = untilValue
+    ? toDate(untilValue.dateOnly ? { ...untilValue.wall, hour: 23, minute: 59, second: 59 } : untilValue.wall, untilValue.zone || event.start.zone)
+    : undefined;
+  const occurrences: IcsDate[] = [];
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_ITERATIONS; period++) {
+    const candidates = getPeriodCandidates(rule, event.start.wall, period)
+      .filter(wall => compareWall(wall, event.start.wall) >= 0);
+
+    for (const wall of candidates) {
+      const occurrence: IcsDate = { ...event.start, wall };
+      const start = icsToDate(occurrence);
+      if ((until && start > until) || start >= rangeEnd || (count !== undefined && emitted >= count)) {
+        return occurrences;
+      }
+      occurrences.push(occurrence);
+      emitted++;
+    }
+  }
+
+  return occurrences;
+}
+
+function readEvent(properties: Property[]): RawEvent | null {
+  const event: Partial<RawEvent> = { exdates: [], rdates: [], summary: '' };
+
+  for (const property of properties) {
+    switch (property.name) {
+      case 'UID':
+        event.uid = property.value;
+        break;
+      case 'SUMMARY':
+        event.summary = unescapeText(property.value);
+        break;
+      case 'LOCATION':
+        event.location = unescapeText(property.value) || undefined;
+        break;
+      case 'STATUS':
+        event.status = property.value.toUpperCase();
+        break;
+      case 'DTSTART':
+        event.start = parseDateValue(property.value, property.params);
+        break;
+      case 'DTEND':
+        event.end = parseDateValue(property.value, property.params);
+        break;
+      case 'DURATION':
+        event.durationMs = parseDuration(property.value);
+        break;
+      case 'RRULE':
+        event.rrule = Object.fromEntries(property.value.split(';').map(part => {
+          const [key, value] = part.split('=');
+          return [key.toUpperCase(), (value || '').toUpperCase()];
+        }));
+        break;
+      case 'EXDATE':
+        event.exdates!.push(...parseDateList(property));
+        break;
+      case 'RDATE':
+        event.rdates!.push(...parseDateList(property));
+        break;
+      case 'RECURRENCE-ID':
+        event.recurrenceId = parseDateValue(property.value, property.params);
+        break;
+    }
+  }
+
+  return event.start ? { uid: event.uid || '', ...event } as RawEvent : null;
+}
+
+/**
+ * Reads the VEVENT blocks of a calendar, ignoring alarms and time zone definitions
+ */
+function readEvents(content: string): RawEvent[] {
+  const events: RawEvent[] = [];
+  let current: Property[] | null = null;
+  let depth = 0;
+
+  for (const property of parseProperties(content)) {
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      depth = 0;
+    } else if (current && property.name === 'BEGIN') {
+      depth++; // VALARM inside the event
+    } else if (current && property.name === 'END' && depth > 0) {
+      depth--;
+    } else if (current && property.name === 'END' && property.value.toUpperCase() === 'VEVENT') {
+      const event = readEvent(current);
+      if (event) {
+        events.push(event);
+      }
+      current = null;
+    } else if (current && depth === 0) {
+      current.push(property);
+    }
+  }
+
+  return events;
+}
+
+function toCalendarEvent(event: RawEvent, start: IcsDate): CalendarEvent {
+  const startDate = icsToDate(start);
+  let durationMs: number;
+  if (event.durationMs !== undefined) {
+    durationMs = event.durationMs;
+  } else if (event.end) {
+    durationMs = icsToDate(event.end).getTime() - icsToDate(event.start).getTime();
+  } else {
+    // RFC 5545: a date-only event without an end lasts one day, a timed one no time
+    durationMs = event.start.dateOnly ? 86400000 : 0;
+  }
+
+  // All-day events keep their calendar dates, whatever the DST changes in between
+  const end = event.start.dateOnly
+    ? toDate(utcToWall(new Date(wallToUtc(start.wall).getTime() + durationMs)))
+    : new Date(startDate.getTime() + durationMs);
+
+  return {
+    uid: event.uid,
+    summary: event.summary,
+    start: startDate,
+    end,
+    all_day: start.dateOnly,
+    location: event.location,
+    status: event.status,
+  };
+}
+
+/**
+ * Returns the events of a calendar overlapping [from, to), with recurring events expanded
+ * and moved or cancelled occurrences applied
+ */
+export function readCalendar(content: string, from: Date, to: Date): CalendarEvent[] {
+  const events = readEvents(content);
+
+  // Occurrences replaced by a modified copy, keyed by UID and original start
+  const overrides = new Set(
+    events.filter(event => event.recurrenceId).map(event => `${event.uid} ${icsToDate(event.recurrenceId!).getTime()}`)
+  );
+
+  const results: CalendarEvent[] = [];
+  events.forEach(event => {
+    if (event.recurrenceId) {
+      results.push(toCalendarEvent(event, event.start));
+      return;
+    }
+
+    let starts: IcsDate[] = event.rrule ? expandRule(event, to) : [event.start];
+    starts = starts.concat(event.rdates);
+
+    const excluded = new Set(event.exdates.map(date => icsToDate(date).getTime()));
+    starts
+      .filter(start => {
+        const time = icsToDate(start).getTime();
+        return !excluded.has(time) && !overrides.has(`${event.uid} ${time}`);
+      })
+      .forEach(start => results.push(toCalendarEvent(event, start)));
+  });
+
+  return results
+    .filter(event => event.status !== 'CANCELLED')
+    // Zero-length events still count if they start inside the range
+    .filter(event => event.start < to && (event.end > from || (event.start.getTime() === event.end.getTime() && event.start >= from)))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
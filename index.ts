@@ -1,591 +1,294 @@
-import axios from 'axios';
-import * as dotenv from 'dotenv';
-import { format, subDays, parseISO, startOfMonth, endOfMonth, eachDayOfInterval } from 'date-fns';
 import { promises as fs } from 'fs';
 import path from 'path';
-
-// Load environment variables
-dotenv.config();
-
-// API key should be set in a .env file
-const API_KEY = process.env.RESCUETIME_API_KEY;
-
-// Interfaces for API responses
-interface DailySummary {
-  id: number;
-  date: string;
-  productivity_pulse: number;
-  very_productive_percentage: number;
-  productive_percentage: number;
-  neutral_percentage: number;
-  distracting_percentage: number;
-  very_distracting_percentage: number;
-  all_productive_percentage: number;
-  all_distracting_percentage: number;
-  total_hours: number;
-  total_duration_formatted: string;
-  very_productive_hours: number;
-  very_productive_duration_formatted: string;
-  productive_hours: number;
-  productive_duration_formatted: string;
-  neutral_hours: number;
-  neutral_duration_formatted: string;
-  distracting_hours: number;
-  distracting_duration_formatted: string;
-  very_distracting_hours: number;
-  very_distracting_duration_formatted: string;
-}
-
-interface ActivityData {
-  rank: number;
-  time_spent_seconds: number;
-  number_of_people: number;
-  activity: string;
-  category: string;
-  productivity: number;
-}
-
-// New interface for detailed document data
-interface DocumentData {
-  hour: string;
-  title: string;
-  application: string;
-  time_spent_seconds: number;
-  productivity: number;
-}
-
-// Group hourly document data by hour for easy reporting
-interface HourlyDocumentData {
-  [hour: string]: DocumentData[];
-}
+import { listStoredDates, StoreOptions } from './store';
+import { RollupPeriod, buildRollup, formatRollupReport, getRollupFileName } from './rollup';
+import { CliArgs, runCommand, resolveDateRange, getDatesInRange } from './cli-args';
+import { buildDailyReport, isReportFileComplete } from './report';
+import { RENDERERS, ReportFormat } from './renderers';
+import { RedactionPolicy, isPolicyEmpty, loadRedactionConfig, logRedactions, redactDailyReport, redactValue } from './redaction';
+import { GOALS_MISSED_EXIT_CODE, formatGoalValue, getRecordedFailures, loadGoals, recordGoalResults } from './goals';
+import { getYesterday } from './timezone';
 
 /**
- * Fetches the daily summary data from RescueTime API for a specific date
- * This implementation handles both recent and historical data
+ * Checks if a report file for the specified date and extension already exists
  */
-async function getDailySummary(date?: string): Promise<DailySummary | null> {
+async function reportFileExists(date: string, reportsDir: string, extension: string): Promise<boolean> {
+  const fileName = `rescuetime-report-${date}.${extension}`;
+  const filePath = path.join(reportsDir, fileName);
+  
   try {
-    if (!API_KEY) {
-      throw new Error('RESCUETIME_API_KEY not found in environment variables');
-    }
-
-    const targetDate = date || format(subDays(new Date(), 1), 'yyyy-MM-dd');
-    console.log(`Fetching data for ${targetDate}...`);
-    
-    // First attempt: Try the daily summary feed with restrict_date
-    let url = `https://www.rescuetime.com/anapi/daily_summary_feed?key=${API_KEY}&restrict_date=${targetDate}`;
-    let response = await axios.get(url);
-    
-    if (response.status !== 200) {
-      throw new Error(`Failed to fetch daily summary: ${response.statusText}`);
-    }
-
-    let summaries = response.data as DailySummary[];
-    
-    // Check if we got data for our target date
-    const targetSummary = summaries.find(summary => summary.date === targetDate);
-    
-    // If we found data with the first attempt, return it
-    if (targetSummary) {
-      return targetSummary;
-    }
-    
-    // Second attempt: Try the analytics API for historical data
-    // This API can get data from any date in the past
-    console.log(`No data found with daily summary feed, trying analytics API for ${targetDate}...`);
-    
-    url = `https://www.rescuetime.com/anapi/data?key=${API_KEY}&format=json&restrict_begin=${targetDate}&restrict_end=${targetDate}&perspective=interval&resolution_time=day`;
-    response = await axios.get(url);
-    
-    if (response.status !== 200) {
-      throw new Error(`Failed to fetch analytics data: ${response.statusText}`);
-    }
-    
-    // If there's no data, the rows will be empty
-    if (!response.data.rows || response.data.rows.length === 0) {
-      console.log(`No data found for ${targetDate} using either API method`);
-      return null;
-    }
-    
-    // We need to convert the analytics API data to match the DailySummary interface
-    console.log(`Converting analytics data to summary format for ${targetDate}...`);
-    
-    // The analytics API returns data in a different format, so we need to process it
-    let totalSeconds = 0;
-    let veryProductiveSeconds = 0;
-    let productiveSeconds = 0;
-    let neutralSeconds = 0;
-    let distractingSeconds = 0;
-    let veryDistractingSeconds = 0;
-    let productivityPulse = 0;
-    
-    // Process each row of data
-    response.data.rows.forEach((row: any) => {
-      const seconds = row[1];
-      const productivity = row[5]; // Productivity level (-2 to 2)
-      
-      totalSeconds += seconds;
-      
-      switch(productivity) {
-        case 2:
-          veryProductiveSeconds += seconds;
-          break;
-        case 1:
-          productiveSeconds += seconds;
-          break;
-        case 0:
-          neutralSeconds += seconds;
-          break;
-        case -1:
-          distractingSeconds += seconds;
-          break;
-        case -2:
-          veryDistractingSeconds += seconds;
-          break;
-      }
-    });
-    
-    // Calculate percentages
-    const veryProductivePercentage = totalSeconds > 0 ? (veryProductiveSeconds / totalSeconds) * 100 : 0;
-    const productivePercentage = totalSeconds > 0 ? (productiveSeconds / totalSeconds) * 100 : 0;
-    const neutralPercentage = totalSeconds > 0 ? (neutralSeconds / totalSeconds) * 100 : 0;
-    const distractingPercentage = totalSeconds > 0 ? (distractingSeconds / totalSeconds) * 100 : 0;
-    const veryDistractingPercentage = totalSeconds > 0 ? (veryDistractingSeconds / totalSeconds) * 100 : 0;
-    
-    // Calculate productivity pulse (0-100 scale)
-    if (totalSeconds > 0) {
-      productivityPulse = Math.round(
-        ((veryProductiveSeconds * 2) + (productiveSeconds * 1) + (neutralSeconds * 0) + 
-         (distractingSeconds * -1) + (veryDistractingSeconds * -2)) / 
-        (totalSeconds / 3600) + 50
-      );
-    }
-    
-    // Format durations
-    const formatDuration = (seconds: number): string => {
-      const hours = Math.floor(seconds / 3600);
-      const minutes = Math.floor((seconds % 3600) / 60);
-      return `${hours}h ${minutes}m`;
-    };
-    
-    // Create a DailySummary object from the analytics data
-    const syntheticSummary: DailySummary = {
-      id: new Date(targetDate).getTime(),
-      date: targetDate,
-      productivity_pulse: productivityPulse,
-      very_productive_percentage: veryProductivePercentage,
-      productive_percentage: productivePercentage,
-      neutral_percentage: neutralPercentage,
-      distracting_percentage: distractingPercentage,
-      very_distracting_percentage: veryDistractingPercentage,
-      all_productive_percentage: veryProductivePercentage + productivePercentage,
-      all_distracting_percentage: distractingPercentage + veryDistractingPercentage,
-      total_hours: totalSeconds / 3600,
-      total_duration_formatted: formatDuration(totalSeconds),
-      very_productive_hours: veryProductiveSeconds / 3600,
-      very_productive_duration_formatted: formatDuration(veryProductiveSeconds),
-      productive_hours: productiveSeconds / 3600,
-      productive_duration_formatted: formatDuration(productiveSeconds),
-      neutral_hours: neutralSeconds / 3600,
-      neutral_duration_formatted: formatDuration(neutralSeconds),
-      distracting_hours: distractingSeconds / 3600,
-      distracting_duration_formatted: formatDuration(distractingSeconds),
-      very_distracting_hours: veryDistractingSeconds / 3600,
-      very_distracting_duration_formatted: formatDuration(veryDistractingSeconds),
-    };
-    
-    return syntheticSummary;
+    await fs.access(filePath);
+    return true; // File exists
   } catch (error) {
-    console.error(`Error fetching daily summary for ${date}:`, error);
-    return null;
+    return false; // File does not exist
   }
 }
 
 /**
- * Fetches detailed activity data from RescueTime API
+ * Deletes the summary of a date so summarize regenerates it from the new report
  */
-async function getDetailedActivities(date: string): Promise<ActivityData[]> {
-  try {
-    if (!API_KEY) {
-      throw new Error('RESCUETIME_API_KEY not found in environment variables');
-    }
-
-    // Format the API URL with date range parameters
-    const url = `https://www.rescuetime.com/anapi/data?key=${API_KEY}&perspective=interval&restrict_kind=activity&interval=hour&restrict_begin=${date}&restrict_end=${date}&format=json`;
+async function invalidateSummary(date: string, dryRun: boolean) {
+  const summaryPath = path.join(process.cwd(), 'summaries', `summary-${date}.md`);
 
-    const response = await axios.get(url);
-
-    if (response.status !== 200) {
-      throw new Error(`Failed to fetch activity data: ${response.statusText}`);
-    }
-
-    // Process the response
-    if (!response.data.rows || response.data.rows.length === 0) {
-      return [];
-    }
-
-    // Map API response to ActivityData interface
-    const activities = response.data.rows.map((row: any) => ({
-      rank: row[0],
-      time_spent_seconds: row[1],
-      number_of_people: row[2],
-      activity: row[3],
-      category: row[4],
-      productivity: row[5]
-    }));
-
-    // Group activities by type and sum time spent
-    const groupedActivities: { [key: string]: ActivityData } = {};
-
-    activities.forEach((activity: ActivityData) => {
-      if (!groupedActivities[activity.activity]) {
-        groupedActivities[activity.activity] = { ...activity };
-      } else {
-        groupedActivities[activity.activity].time_spent_seconds += activity.time_spent_seconds;
-      }
-    });
-
-    // Convert back to array and sort by time spent
-    return Object.values(groupedActivities).sort(
-      (a, b) => b.time_spent_seconds - a.time_spent_seconds
-    );
+  try {
+    await fs.access(summaryPath);
   } catch (error) {
-    console.error('Error fetching detailed activities:', error);
-    return [];
+    return; // No summary yet
+  }
+
+  if (dryRun) {
+    console.log(`Would invalidate summary-${date}.md`);
+    return;
   }
+
+  await fs.unlink(summaryPath);
+  console.log(`Invalidated summary-${date}.md`);
 }
 
 /**
- * Fetches detailed document data (tab titles) from RescueTime API
- * This gets the exact tab titles used during each hour of the day
+ * Ensures the reports directory exists
  */
-async function getDetailedDocumentData(date: string): Promise<HourlyDocumentData> {
+async function ensureReportsDirectory() {
+  const reportsDir = path.join(process.cwd(), 'reports');
   try {
-    if (!API_KEY) {
-      throw new Error('RESCUETIME_API_KEY not found in environment variables');
-    }
-
-    // We use the document_filter to specifically get document/window titles
-    const url = `https://www.rescuetime.com/anapi/data?key=${API_KEY}&perspective=interval&restrict_kind=document&interval=hour&restrict_begin=${date}&restrict_end=${date}&format=json`;
-    
-    console.log(`Fetching detailed document data for ${date}...`);
-    const response = await axios.get(url);
-    
-    if (response.status !== 200) {
-      throw new Error(`Failed to fetch document data: ${response.statusText}`);
-    }
-
-    // Process the response
-    if (!response.data.rows || response.data.rows.length === 0) {
-      return {};
-    }
-
-    // Group data by hour
-    const hourlyData: HourlyDocumentData = {};
-    
-    response.data.rows.forEach((row: any) => {
-      // Extract data from the API response
-      // The row format depends on RescueTime's API structure
-      // This is typically [rank, time_spent_seconds, people, document_title, category, productivity]
-      const docData: DocumentData = {
-        hour: row[0], // Might need formatting depending on API response
-        time_spent_seconds: row[1],
-        title: row[3],
-        application: row[4] || 'Unknown',
-        productivity: row[5],
-      };
-      
-      // Extract hour from date-time string (e.g., "2025-04-25T14:00:00" -> "14:00")
-      const hourMatch = docData.hour.match(/T(\d{2}:\d{2}):/);
-      const hourKey = hourMatch ? hourMatch[1] : 'unknown';
-      
-      if (!hourlyData[hourKey]) {
-        hourlyData[hourKey] = [];
-      }
-      
-      hourlyData[hourKey].push(docData);
-    });
-    
-    // Sort documents in each hour by time spent
-    Object.keys(hourlyData).forEach(hour => {
-      hourlyData[hour].sort((a, b) => b.time_spent_seconds - a.time_spent_seconds);
-    });
-    
-    return hourlyData;
+    await fs.access(reportsDir);
   } catch (error) {
-    console.error('Error fetching document data:', error);
-    return {};
+    // Directory doesn't exist, create it
+    await fs.mkdir(reportsDir, { recursive: true });
   }
+  return reportsDir;
 }
 
 /**
- * Formats time in seconds to hours and minutes
+ * Shows what the local redaction policy would change in a day's report, using stored data only
  */
-function formatTime(seconds: number): string {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-
-  if (hours === 0) {
-    return `${minutes}m`;
+async function previewRedactions(date: string, policy: RedactionPolicy) {
+  if (isPolicyEmpty(policy)) {
+    return;
   }
 
-  return `${hours}h ${minutes}m`;
+  let report;
+  try {
+    report = (await buildDailyReport(date, { offline: true })).report;
+  } catch (error) {
+    report = null;
+  }
+  if (!report) {
+    console.log(`  No stored data for ${date} to preview redactions`);
+    return;
+  }
+  logRedactions('Local redaction policy', redactDailyReport(report, policy).changes);
 }
 
 /**
- * Categorizes productivity level
+ * Prints the goals missed on a date, as "name: value" or just the name
  */
-function getProductivityCategory(level: number): string {
-  switch (level) {
-    case 2: return 'very productive';
-    case 1: return 'productive';
-    case 0: return 'neutral';
-    case -1: return 'distracting';
-    case -2: return 'very distracting';
-    default: return 'unknown';
-  }
+function logMissedGoals(date: string, missed: string[]) {
+  console.log(`❌ Missed ${missed.length} goal(s) on ${date}:`);
+  missed.forEach(goal => console.log(`  ${goal}`));
 }
 
 /**
- * Checks if a report file for the specified date already exists
+ * Finds the goals missed on a day whose reports are not regenerated: evaluated on the
+ * stored data, or as recorded when the reports were written if nothing is stored
  */
-async function reportFileExists(date: string, reportsDir: string): Promise<boolean> {
-  const fileName = `rescuetime-report-${date}.md`;
-  const filePath = path.join(reportsDir, fileName);
-  
+async function getMissedGoalsOfExistingReport(date: string): Promise<string[]> {
+  if ((await loadGoals()).length === 0) {
+    return [];
+  }
+
+  let report;
   try {
-    await fs.access(filePath);
-    return true; // File exists
+    report = (await buildDailyReport(date, { offline: true })).report;
   } catch (error) {
-    return false; // File does not exist
+    report = null;
+  }
+  if (!report?.goals) {
+    return await getRecordedFailures(date);
   }
+  return report.goals
+    .filter(goal => goal.status === 'failed')
+    .map(goal => `${goal.name}: ${formatGoalValue(goal.metric, goal.value!)}`);
 }
 
 /**
- * Generates a daily report for the specified date
+ * Generates and saves the daily reports for the given dates.
+ * Returns the dates on which a goal was missed.
  */
-async function generateDailyReport(date?: string): Promise<string> {
-  console.log("🚀 Generating daily report...", date);
-  const targetDate = date || format(subDays(new Date(), 1), 'yyyy-MM-dd');
-
-  // Fetch the summary data
-  const summary = await getDailySummary(targetDate);
-  if (!summary) {
-    return `No data found for ${targetDate}`;
-  }
+async function generateReportsForDates(dates: string[], args: CliArgs, policy: RedactionPolicy, options: StoreOptions = {}): Promise<string[]> {
+  // Ensure the reports directory exists
+  const reportsDir = await ensureReportsDirectory();
+  const failedDates: string[] = [];
+  const missedGoalDates: string[] = [];
+
+  for (const dateString of dates) {
+    // Render the formats whose file is missing or was generated from incomplete data
+    const formats: ReportFormat[] = [];
+    let replacesMarkdown = false;
+    for (const reportFormat of args.formats) {
+      const fileName = `rescuetime-report-${dateString}.${RENDERERS[reportFormat].extension}`;
+      const exists = await reportFileExists(dateString, reportsDir, RENDERERS[reportFormat].extension);
+      const incomplete = exists && !(await isReportFileComplete(dateString, path.join(reportsDir, fileName)));
+
+      if (!exists || incomplete || args.force) {
+        formats.push(reportFormat);
+        if (incomplete && !args.force) {
+          console.log(`Refreshing ${fileName} - it was generated before the day was complete`);
+        }
+        replacesMarkdown = replacesMarkdown || (exists && reportFormat === 'markdown');
+      }
+    }
 
-  // Fetch detailed activities
-  const activities = await getDetailedActivities(targetDate);
-  
-  // Fetch detailed document data (tab titles by hour)
-  const hourlyDocuments = await getDetailedDocumentData(targetDate);
+    if (formats.length === 0) {
+      console.log(`Skipping ${dateString} - report already exists`);
+      // A day that missed a goal keeps failing the command until the goal is met
+      const missed = await getMissedGoalsOfExistingReport(dateString);
+      if (missed.length > 0) {
+        logMissedGoals(dateString, missed);
+        missedGoalDates.push(dateString);
+      }
+      continue;
+    }
 
-  // Construct the report
-  const dateFormatted = format(parseISO(summary.date), 'EEEE, MMMM do, yyyy');
-  let report = `# RescueTime Daily Report for ${dateFormatted}\n\n`;
+    // Summaries are built from the Markdown report, so a new one makes the summary stale.
+    // Offline rebuilds reuse the same data, so their summaries stay valid.
+    const invalidatesSummary = replacesMarkdown && !options.offline;
 
-  report += `## Summary\n`;
-  report += `- Total time tracked: ${summary.total_duration_formatted} (${summary.total_hours.toFixed(2)} hours)\n`;
-  
-  // Calculate productive time (total time - very distracting time)
-  const productiveTimeSeconds = (summary.total_hours * 3600) - (summary.very_distracting_hours * 3600);
-  const productiveTimeHours = productiveTimeSeconds / 3600;
-  const productiveTimePercentage = (productiveTimeHours / summary.total_hours) * 100;
-  const productiveTimeFormatted = formatTime(productiveTimeSeconds);
-  
-  report += `- Total Productive time: ${productiveTimeFormatted} (${productiveTimeHours.toFixed(1)} h)\n`;
-  
-  // Fix for the productivity pulse issue - ensure it's a number between 0-100
-  const productivityPulse = typeof summary.productivity_pulse === 'number' && 
-    summary.productivity_pulse >= 0 && summary.productivity_pulse <= 100 
-      ? summary.productivity_pulse 
-      : Math.min(100, Math.max(0, Math.round(summary.productivity_pulse || 0)));
-  
-  report += `- Productivity pulse: ${productivityPulse}/100\n\n`;
-
-  report += `## Time Distribution\n`;
-  report += `- Very productive: ${summary.very_productive_duration_formatted} (${summary.very_productive_percentage.toFixed(1)}%)\n`;
-  report += `- Productive: ${summary.productive_duration_formatted} (${summary.productive_percentage.toFixed(1)}%)\n`;
-  report += `- Neutral: ${summary.neutral_duration_formatted} (${summary.neutral_percentage.toFixed(1)}%)\n`;
-  report += `- Distracting: ${summary.distracting_duration_formatted} (${summary.distracting_percentage.toFixed(1)}%)\n`;
-  report += `- Very distracting: ${summary.very_distracting_duration_formatted} (${summary.very_distracting_percentage.toFixed(1)}%)\n\n`;
-
-  if (activities.length > 0) {
-    report += `## Top Activities\n`;
-
-    // Show top 15 activities
-    const topActivities = activities.slice(0, 15);
-    topActivities.forEach(activity => {
-      const timeFormatted = formatTime(activity.time_spent_seconds);
-      const category = getProductivityCategory(activity.productivity);
-      report += `- ${activity.activity} (${timeFormatted}) - ${activity.category} (${category})\n`;
-    });
-    
-    report += '\n';
-  }
-  
-  // Add hourly breakdown with tab titles
-  if (Object.keys(hourlyDocuments).length > 0) {
-    report += `## Hourly Breakdown with Tab Titles\n\n`;
-    
-    // Get all hours sorted
-    const sortedHours = Object.keys(hourlyDocuments).sort();
-    
-    // Process each hour
-    sortedHours.forEach(hour => {
-      report += `### ${hour}\n\n`;
-      
-      // Get top 10 documents for each hour
-      const topDocs = hourlyDocuments[hour].slice(0, 10);
-      
-      if (topDocs.length > 0) {
-        topDocs.forEach(doc => {
-          const timeFormatted = formatTime(doc.time_spent_seconds);
-          const category = getProductivityCategory(doc.productivity);
-          report += `- **${doc.title}** (${timeFormatted}) - ${doc.application} (${category})\n`;
-        });
-      } else {
-        report += `No detailed data available for this hour.\n`;
+    if (args.dryRun) {
+      formats.forEach(reportFormat => {
+        console.log(`Would generate rescuetime-report-${dateString}.${RENDERERS[reportFormat].extension}`);
+      });
+      if (invalidatesSummary) {
+        await invalidateSummary(dateString, true);
       }
-      
-      report += '\n';
-    });
-  }
+      await previewRedactions(dateString, policy);
+      continue;
+    }
 
-  return report;
-}
+    console.log(`Processing ${dateString}...`);
+    console.log("🚀 Generating daily report...", dateString);
+    let built;
+    try {
+      built = await buildDailyReport(dateString, options);
+    } catch (error) {
+      // Keep going with the other days; the existing report (if any) is left untouched
+      console.error(`Failed to generate report for ${dateString}: ${error instanceof Error ? error.message : error}`);
+      failedDates.push(dateString);
+      continue;
+    }
+    const { meta } = built;
+    const report = built.report && redactDailyReport(built.report, policy).report;
 
-/**
- * Ensures the reports directory exists
- */
-async function ensureReportsDirectory() {
-  const reportsDir = path.join(process.cwd(), 'reports');
-  try {
-    await fs.access(reportsDir);
-  } catch (error) {
-    // Directory doesn't exist, create it
-    await fs.mkdir(reportsDir, { recursive: true });
+    for (const reportFormat of formats) {
+      const renderer = RENDERERS[reportFormat];
+      const content = report ? renderer.render(report, meta) : renderer.renderEmpty(dateString, meta);
+
+      // Print single-day Markdown reports, like the original one-off mode
+      if (dates.length === 1 && reportFormat === 'markdown') {
+        console.log(content);
+      }
+
+      // Save the report to a file in the reports directory
+      const fileName = `rescuetime-report-${dateString}.${renderer.extension}`;
+      await fs.writeFile(path.join(reportsDir, fileName), content);
+
+      console.log(`Saved report for ${dateString} to ${fileName}`);
+    }
+
+    if (invalidatesSummary) {
+      await invalidateSummary(dateString, false);
+    }
+
+    if (report?.goals) {
+      await recordGoalResults(dateString, report.goals);
+      const missed = report.goals.filter(goal => goal.status === 'failed');
+      if (missed.length > 0) {
+        logMissedGoals(dateString, missed.map(goal => `${goal.name}: ${formatGoalValue(goal.metric, goal.value!)}`));
+        missedGoalDates.push(dateString);
+      }
+    }
   }
-  return reportsDir;
+
+  if (failedDates.length > 0) {
+    throw new Error(`Failed to generate ${failedDates.length} report(s): ${failedDates.join(', ')}`);
+  }
+  return missedGoalDates;
 }
 
 /**
- * Generates reports for all days in the specified month and year
+ * Generates the weekly or monthly rollup report for the period containing the date
  */
-async function generateMonthlyReports(year: number, month: number) {
-  const startDate = startOfMonth(new Date(year, month - 1));
-  const endDate = endOfMonth(new Date(year, month - 1));
-  
-  // Get the current date to limit processing for the current month
-  const currentDate = new Date();
-  const isCurrentMonth = (
-    currentDate.getFullYear() === year && 
-    currentDate.getMonth() + 1 === month
-  );
-  
-  // If this is the current month, use the current date as the end date
-  const effectiveEndDate = isCurrentMonth ? currentDate : endDate;
+async function generateRollupReport(period: RollupPeriod, date: string, policy: RedactionPolicy, options: StoreOptions = {}) {
+  const reportsDir = await ensureReportsDirectory();
 
-  // Create an array of all days in the month up to today if it's current month
-  const daysInMonth = eachDayOfInterval({ start: startDate, end: effectiveEndDate });
+  console.log(`Generating ${period} rollup for ${date}...`);
+  const rollup = await buildRollup(period, date, options);
+  rollup.activities = rollup.activities.flatMap(activity => {
+    const name = redactValue(activity.activity, policy);
+    return name === null ? [] : [{ ...activity, activity: name }];
+  });
+  const report = formatRollupReport(rollup);
 
-  // Ensure the reports directory exists
-  const reportsDir = await ensureReportsDirectory();
+  console.log(report);
 
-  console.log(`Generating reports for ${format(startDate, 'MMMM yyyy')}${isCurrentMonth ? ' (up to today)' : ''}...`);
+  const fileName = getRollupFileName(period, rollup.label);
+  const filePath = path.join(reportsDir, fileName);
+  await fs.writeFile(filePath, report);
 
-  // Generate a report for each day
-  for (const day of daysInMonth) {
-    const dateString = format(day, 'yyyy-MM-dd');
-    
-    // Check if report already exists
-    const exists = await reportFileExists(dateString, reportsDir);
-    if (exists) {
-      console.log(`Skipping ${dateString} - report already exists`);
-      continue;
-    }
-    
-    console.log(`Processing ${dateString}...`);
-    
-    const report = await generateDailyReport(dateString);
+  console.log(`\nRollup saved to ${filePath}`);
+}
 
-    // Save the report to a file in the reports directory
-    const fileName = `rescuetime-report-${dateString}.md`;
-    const filePath = path.join(reportsDir, fileName);
-    await fs.writeFile(filePath, report);
+/**
+ * Regenerates the report of every date in the local store without calling the API
+ */
+async function rebuildReportsFromStore(args: CliArgs, policy: RedactionPolicy) {
+  const dates = await listStoredDates();
 
-    console.log(`Saved report for ${dateString} to ${fileName}`);
-  }
+  console.log(`Rebuilding ${dates.length} reports from the local store...`);
 
-  console.log(`\nAll reports for ${format(startDate, 'MMMM yyyy')}${isCurrentMonth ? ' up to today' : ''} have been generated and saved to the 'reports/' directory.`);
+  await generateReportsForDates(dates, { ...args, force: true }, policy, { offline: true });
 }
 
 /**
- * Main function to execute the script
+ * Runs the report command
  */
-async function main() {
-  try {
-    // Ensure the reports directory exists
-    const reportsDir = await ensureReportsDirectory();
-    
-    // Check command-line arguments
-    if (process.argv.length >= 3 && process.argv[2] === '--month') {
-      // Get the current month and year
-      const now = new Date();
-      const currentYear = now.getFullYear();
-      const currentMonth = now.getMonth(); // JavaScript months are 0-indexed
-
-      // Generate reports for the current month
-      await generateMonthlyReports(currentYear, currentMonth);
-    } else if (process.argv.length >= 3) {
-      // Generate a single report for the specified date
-      const dateParam = process.argv[2]; // Format should be YYYY-MM-DD
-      
-      // Check if report already exists
-      const exists = await reportFileExists(dateParam, reportsDir);
-      if (exists) {
-        console.log(`Skipping ${dateParam} - report already exists`);
-        return;
-      }
-      
-      console.log(`Processing ${dateParam}...`);
-      const report = await generateDailyReport(dateParam);
+export async function runReport(args: CliArgs) {
+  // Window titles and activity names are redacted before any report is written
+  const { local: policy } = await loadRedactionConfig();
 
-      console.log(report);
+  if (args.rebuild) {
+    await rebuildReportsFromStore(args, policy);
+    return;
+  }
 
-      // Save the report to a file in the reports directory
-      const fileName = `rescuetime-report-${dateParam}.md`;
-      const filePath = path.join(reportsDir, fileName);
-      await fs.writeFile(filePath, report);
-
-      console.log(`\nReport saved to ${filePath}`);
-    } else {
-      // Default: Generate report for yesterday
-      const yesterday = format(subDays(new Date(), 1), 'yyyy-MM-dd');
-      
-      // Check if report already exists
-      const exists = await reportFileExists(yesterday, reportsDir);
-      if (exists) {
-        console.log(`Skipping ${yesterday} - report already exists`);
-        return;
-      }
-      
-      console.log(`Processing ${yesterday}...`);
-      const report = await generateDailyReport(yesterday);
+  // Default: Generate report for yesterday
+  const yesterday = getYesterday();
+  const range = resolveDateRange(args) || { from: yesterday, to: yesterday, kind: 'date' };
+  const dates = getDatesInRange(range);
 
-      console.log(report);
+  const options: StoreOptions = {
+    offline: args.offline,
+    // A forced report should not reuse a stored response either
+    refresh: args.force,
+  };
 
-      // Save the report to a file in the reports directory
-      const fileName = `rescuetime-report-${yesterday}.md`;
-      const filePath = path.join(reportsDir, fileName);
-      await fs.writeFile(filePath, report);
+  if (dates.length > 1) {
+    console.log(`Generating reports from ${range.from} to ${dates[dates.length - 1]}...`);
+  }
 
-      console.log(`\nReport saved to ${filePath}`);
-    }
-  } catch (error) {
-    console.error('Error generating reports:', error);
+  const missedGoalDates = await generateReportsForDates(dates, args, policy, options);
+
+  // Sum weeks and months up once their daily reports are done
+  if ((range.kind === 'week' || range.kind === 'month') && !args.dryRun) {
+    await generateRollupReport(range.kind, range.from, policy, options);
+  }
+
+  // Lets cron jobs and shell prompts react to missed goals
+  if (missedGoalDates.length > 0) {
+    process.exitCode = GOALS_MISSED_EXIT_CODE;
   }
 }
 
-// Run the script
-main();
\ No newline at end of file
+if (require.main === module) {
+  runCommand('report', process.argv.slice(2), runReport);
+}
@@ -0,0 +1,214 @@
+import * as dotenv from 'dotenv';
+import { httpPost } from './http';
+
+dotenv.config();
+
+export type LlmProviderName = 'openai' | 'anthropic' | 'azure' | 'openai-compatible';
+
+export const LLM_PROVIDERS: LlmProviderName[] = ['openai', 'anthropic', 'azure', 'openai-compatible'];
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  // For Azure, the deployment name
+  model: string;
+  temperature: number;
+  maxTokens?: number;
+  // OpenAI-compatible servers (Ollama, llama.cpp, ...) and OpenAI/Anthropic proxies
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface ChatRequest {
+  system: string;
+  user: string;
+}
+
+export interface LlmProvider {
+  // e.g. "openai/gpt-4o-mini", for logs
+  label: string;
+  complete(request: ChatRequest): Promise<string>;
+}
+
+// Chat completions can take a while for long prompts, especially on local models
+const LLM_TIMEOUT_MS = 120000;
+
+const DEFAULT_MODELS: Record<LlmProviderName, string | undefined> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  azure: process.env.AZURE_OPENAI_DEPLOYMENT,
+  'openai-compatible': undefined,
+};
+
+// Anthropic requires max_tokens on every request
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 1024;
+const ANTHROPIC_VERSION = '2023-06-01';
+const AZURE_DEFAULT_API_VERSION = '2024-06-01';
+
+export function isLlmProviderName(name: string): name is LlmProviderName {
+  return (LLM_PROVIDERS as string[]).includes(name);
+}
+
+/**
+ * Builds the LLM configuration from LLM_* environment variables and per-run overrides
+ */
+export function resolveLlmConfig(overrides: Partial<LlmConfig> = {}): LlmConfig {
+  const envProvider = process.env.LLM_PROVIDER || 'openai';
+  if (!isLlmProviderName(envProvider)) {
+    throw new Error(`LLM_PROVIDER must be one of ${LLM_PROVIDERS.join(', ')}, got "${envProvider}"`);
+  }
+
+  const provider = overrides.provider || envProvider;
+  // LLM_MODEL names a model of LLM_PROVIDER, so another --provider gets its own default
+  const envModel = provider === envProvider ? process.env.LLM_MODEL : undefined;
+  const model = overrides.model || envModel || DEFAULT_MODELS[provider];
+  if (!model) {
+    throw new Error(provider === 'azure'
+      ? 'Set AZURE_OPENAI_DEPLOYMENT (or --model) to the Azure OpenAI deployment name'
+      : provider === envProvider
+        ? `Set LLM_MODEL (or --model) to the model served by the ${provider} endpoint`
+        : `Set --model to the model served by the ${provider} endpoint`);
+  }
+
+  const envTemperature = process.env.LLM_TEMPERATURE ? Number(process.env.LLM_TEMPERATURE) : undefined;
+  if (envTemperature !== undefined && !(envTemperature >= 0 && envTemperature <= 2)) {
+    throw new Error(`LLM_TEMPERATURE must be a number between 0 and 2, got "${process.env.LLM_TEMPERATURE}"`);
+  }
+  const envMaxTokens = process.env.LLM_MAX_TOKENS ? Number(process.env.LLM_MAX_TOKENS) : undefined;
+  if (envMaxTokens !== undefined && !(Number.isInteger(envMaxTokens) && envMaxTokens > 0)) {
+    throw new Error(`LLM_MAX_TOKENS must be a positive integer, got "${process.env.LLM_MAX_TOKENS}"`);
+  }
+
+  return {
+    provider,
+    model,
+    temperature: overrides.temperature ?? envTemperature ?? 0.7,
+    maxTokens: overrides.maxTokens ?? envMaxTokens,
+    baseUrl: overrides.baseUrl || process.env.LLM_BASE_URL,
+    apiKey: overrides.apiKey || process.env.LLM_API_KEY,
+  };
+}
+
+function requireKey(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new Error(`${name} not found in environment variables`);
+  }
+  return value;
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Reads the text of an OpenAI-style chat completion response
+ */
+function readChatCompletion(data: any): string {
+  const content = data?.choices?.[0]?.message?.content;
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new Error('The LLM returned no content');
+  }
+  return content.trim();
+}
+
+/**
+ * OpenAI, Azure OpenAI and OpenAI-compatible servers share the chat completions format
+ */
+function createChatCompletionsProvider(config: LlmConfig, url: string, headers: Record<string, string | undefined>): LlmProvider {
+  return {
+    label: `${config.provider}/${config.model}`,
+
+    async complete(request) {
+      const response = await httpPost(
+        url,
+        {
+          model: config.model,
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: request.user },
+          ],
+          temperature: config.temperature,
+          max_tokens: config.maxTokens,
+        },
+        {
+          headers: { 'Content-Type': 'application/json', ...headers },
+          timeoutMs: LLM_TIMEOUT_MS,
+        }
+      );
+
+      return readChatCompletion(response.data);
+    },
+  };
+}
+
+function createAnthropicProvider(config: LlmConfig): LlmProvider {
+  const apiKey = requireKey(config.apiKey || process.env.ANTHROPIC_API_KEY, 'ANTHROPIC_API_KEY');
+  const baseUrl = trimSlash(config.baseUrl || 'https://api.anthropic.com');
+
+  return {
+    label: `anthropic/${config.model}`,
+
+    async complete(request) {
+      const response = await httpPost(
+        `${baseUrl}/v1/messages`,
+        {
+          model: config.model,
+          system: request.system,
+          messages: [{ role: 'user', content: request.user }],
+          temperature: config.temperature,
+          max_tokens: config.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+            'anthropic-version': ANTHROPIC_VERSION,
+          },
+          timeoutMs: LLM_TIMEOUT_MS,
+        }
+      );
+
+      const text = (response.data?.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+      if (!text.trim()) {
+        throw new Error('The LLM returned no content');
+      }
+      return text.trim();
+    },
+  };
+}
+
+/**
+ * Creates the client for the configured provider
+ */
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  switch (config.provider) {
+    case 'openai': {
+      const apiKey = requireKey(config.apiKey || process.env.OPENAI_API_KEY, 'OPENAI_API_KEY');
+      const baseUrl = trimSlash(config.baseUrl || 'https://api.openai.com/v1');
+      return createChatCompletionsProvider(config, `${baseUrl}/chat/completions`, {
+        Authorization: `Bearer ${apiKey}`,
+      });
+    }
+
+    case 'azure': {
+      const apiKey = requireKey(config.apiKey || process.env.AZURE_OPENAI_API_KEY, 'AZURE_OPENAI_API_KEY');
+      const endpoint = trimSlash(requireKey(config.baseUrl || process.env.AZURE_OPENAI_ENDPOINT, 'AZURE_OPENAI_ENDPOINT'));
+      const apiVersion = process.env.AZURE_OPENAI_API_VERSION || AZURE_DEFAULT_API_VERSION;
+      const url = `${endpoint}/openai/deployments/${encodeURIComponent(config.model)}/chat/completions?api-version=${apiVersion}`;
+      return createChatCompletionsProvider(config, url, { 'api-key': apiKey });
+    }
+
+    case 'openai-compatible': {
+      // Local servers usually need no key; Ollama serves the API under /v1
+      const baseUrl = trimSlash(config.baseUrl || 'http://localhost:11434/v1');
+      return createChatCompletionsProvider(config, `${baseUrl}/chat/completions`, {
+        Authorization: config.apiKey ? `Bearer ${config.apiKey}` : undefined,
+      });
+    }
+
+    case 'anthropic':
+      return createAnthropicProvider(config);
+  }
+}
@@ -0,0 +1,201 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import * as dotenv from 'dotenv';
+import { DateRange } from './cli-args';
+import { Commit, CommitSource, getConfiguredAuthorEmails } from './commit-sources';
+
+dotenv.config();
+
+const execFileAsync = promisify(execFile);
+
+// Directories skipped while looking for repositories
+const IGNORED_DIRECTORIES = ['node_modules', 'vendor', 'dist', 'build'];
+const DEFAULT_SCAN_DEPTH = 3;
+
+// git log output separators that cannot appear in commit subjects
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+export interface LocalGitConfig {
+  // Directories that are repositories or contain repositories
+  directories: string[];
+  // Only commits authored with one of these emails are collected
+  authorEmails: string[];
+  // How many directory levels below each configured directory are searched
+  scanDepth: number;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Reads LOCAL_GIT_DIRS, GIT_AUTHOR_EMAILS and LOCAL_GIT_SCAN_DEPTH.
+ * Without author emails, the global git user.email is used.
+ */
+export async function resolveLocalGitConfig(): Promise<LocalGitConfig> {
+  const directories = splitList(process.env.LOCAL_GIT_DIRS)
+    .map(directory => path.resolve(directory.replace(/^~(?=$|\/)/, process.env.HOME || '~')));
+
+  let authorEmails = getConfiguredAuthorEmails();
+  if (authorEmails.length === 0 && directories.length > 0) {
+    try {
+      const { stdout } = await execFileAsync('git', ['config', '--global', 'user.email']);
+      authorEmails = splitList(stdout);
+    } catch (error) {
+      // No global identity; reported by the caller
+    }
+  }
+
+  const scanDepth = process.env.LOCAL_GIT_SCAN_DEPTH ? parseInt(process.env.LOCAL_GIT_SCAN_DEPTH, 10) : DEFAULT_SCAN_DEPTH;
+
+  return { directories, authorEmails, scanDepth: isNaN(scanDepth) ? DEFAULT_SCAN_DEPTH : scanDepth };
+}
+
+async function isGitRepository(directory: string): Promise<boolean> {
+  try {
+    // .git is a directory in normal clones and a file in worktrees
+    await fs.access(path.join(directory, '.git'));
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Finds git repositories in a directory, without descending into repositories
+ */
+export async function findRepositories(directory: string, depth: number): Promise<string[]> {
+  if (await isGitRepository(directory)) {
+    return [directory];
+  }
+  if (depth <= 0) {
+    return [];
+  }
+
+  let entries;
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    console.warn(`⚠️ Cannot read ${directory}, skipping`);
+    return [];
+  }
+
+  const repositories: string[] = [];
+  for (const entry of entries) {
+    if (entry.isDirectory() && !entry.name.startsWith('.') && !IGNORED_DIRECTORIES.includes(entry.name)) {
+      repositories.push(...await findRepositories(path.join(directory, entry.name), depth - 1));
+    }
+  }
+  return repositories;
+}
+
+async function git(repository: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', ['-C', repository, ...args], { maxBuffer: 64 * 1024 * 1024 });
+  return stdout;
+}
+
+/**
+ * Turns a remote URL into the repository's web URL and owner/name, for remotes we can link to
+ */
+export function parseRemoteUrl(remoteUrl: string): { htmlUrl: string; fullName: string } | null {
+  // git@host:owner/repo.git, ssh://git@host/owner/repo.git, https://host/owner/repo.git
+  const match = remoteUrl.trim().match(/^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([^:/]+)(?::\d+)?[:/](.+?)(?:\.git)?\/?$/i);
+  if (!match) {
+    return null;
+  }
+  return { htmlUrl: `https://${match[1]}/${match[2]}`, fullName: match[2] };
+}
+
+/**
+ * Returns the web URL and name of a repository from its origin remote, or the directory name
+ */
+async function describeRepository(repository: string): Promise<{ htmlUrl?: string; fullName: string }> {
+  try {
+    const remote = parseRemoteUrl(await git(repository, ['remote', 'get-url', 'origin']));
+    if (remote) {
+      return remote;
+    }
+  } catch (error) {
+    // No origin remote: a local-only repository
+  }
+  return { fullName: path.basename(repository) };
+}
+
+/**
+ * Runs git log on every branch of a repository for the author emails and dates
+ */
+async function collectRepositoryCommits(repository: string, range: DateRange, authorEmails: string[]): Promise<Commit[]> {
+  const output = await git(repository, [
+    'log',
+    '--all',
+    '--fixed-strings',
+    '--regexp-ignore-case',
+    ...authorEmails.map(email => `--author=${email}`),
+    `--since=${range.from}T00:00:00`,
+    `--until=${range.to}T23:59:59`,
+    `--format=%H${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%B${RECORD_SEPARATOR}`,
+  ]);
+
+  const { htmlUrl, fullName } = await describeRepository(repository);
+
+  return output
+    .split(RECORD_SEPARATOR)
+    .map(record => record.replace(/^\n/, ''))
+    .filter(record => record.trim())
+    .map(record => {
+      const [sha, date, name, message] = record.split(FIELD_SEPARATOR);
+      return {
+        sha,
+        author_name: name,
+        date,
+        message: message.trim(),
+        html_url: htmlUrl ? `${htmlUrl}/commit/${sha}` : '',
+        repository: {
+          name: fullName.split('/').pop() || fullName,
+          full_name: fullName,
+          html_url: htmlUrl,
+        },
+      };
+    });
+}
+
+/**
+ * Collects commits by the configured authors from every local repository
+ */
+async function collectLocalCommits(range: DateRange, config: LocalGitConfig): Promise<Commit[]> {
+  const repositories: string[] = [];
+  for (const directory of config.directories) {
+    repositories.push(...await findRepositories(directory, config.scanDepth));
+  }
+  console.log(`Found ${repositories.length} local git repositories`);
+
+  const commits: Commit[] = [];
+  for (const repository of repositories) {
+    try {
+      commits.push(...await collectRepositoryCommits(repository, range, config.authorEmails));
+    } catch (error) {
+      // A broken or empty repository should not stop the others
+      console.warn(`⚠️ git log failed in ${repository}: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+    }
+  }
+
+  console.log(`Found ${commits.length} commits in local repositories.`);
+  return commits;
+}
+
+/**
+ * Commits from the repositories in LOCAL_GIT_DIRS, including unpushed branches
+ */
+export function createLocalSource(config: LocalGitConfig): CommitSource {
+  if (config.authorEmails.length === 0) {
+    throw new Error('Set GIT_AUTHOR_EMAILS (or a global git user.email) to collect commits from LOCAL_GIT_DIRS');
+  }
+
+  return {
+    label: `local (${config.authorEmails.join(', ')})`,
+    fetchCommits: range => collectLocalCommits(range, config),
+  };
+}
@@ -0,0 +1,70 @@
+import { promises as fs, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The content of a lock file
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  started_at: string;
+}
+
+export function getLockPath(name: string): string {
+  return path.join(process.cwd(), 'data', `${name}.lock`);
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function readOwner(lockPath: string): Promise<LockOwner | null> {
+  try {
+    return JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Takes an exclusive lock, failing when another live process holds it.
+ * Locks left behind by a process that died are taken over. Returns the release function.
+ */
+export async function acquireLock(name: string): Promise<() => void> {
+  const lockPath = getLockPath(name);
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+
+  const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), started_at: new Date().toISOString() };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // 'wx' fails if the file exists, so only one process can create it
+      await fs.writeFile(lockPath, JSON.stringify(owner, null, 2), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST' || attempt > 0) {
+        throw error;
+      }
+      const current = await readOwner(lockPath);
+      // A lock from another machine (e.g. a synced folder) cannot be checked, so it is respected
+      if (current && (current.hostname !== owner.hostname || isRunning(current.pid))) {
+        throw new Error(`Another ${name} is already running (pid ${current.pid} on ${current.hostname} since ${current.started_at}); delete ${lockPath} if it is not`);
+      }
+      console.log(`Removing the stale lock of pid ${current ? current.pid : 'unknown'}`);
+      await fs.unlink(lockPath).catch(() => undefined);
+    }
+  }
+
+  let released = false;
+  return () => {
+    if (!released) {
+      released = true;
+      // Synchronous, so it also works from an exit handler
+      rmSync(lockPath, { force: true });
+    }
+  };
+}
@@ -0,0 +1,16 @@
+// The steps of the run command, in the order they run
+export type PipelineStep = 'report' | 'commits' | 'summarize' | 'deliver';
+
+export const PIPELINE_STEPS: PipelineStep[] = ['report', 'commits', 'summarize', 'deliver'];
+
+// A step only runs once the steps it needs have succeeded (when they are part of the run)
+export const STEP_DEPENDENCIES: Record<PipelineStep, PipelineStep[]> = {
+  report: [],
+  commits: [],
+  summarize: ['report', 'commits'],
+  deliver: ['report', 'summarize'],
+};
+
+export function isPipelineStep(name: string): name is PipelineStep {
+  return (PIPELINE_STEPS as string[]).includes(name);
+}
@@ -0,0 +1,231 @@
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { format } from 'date-fns';
+import { CliArgs, CliError, DateRange, parseArgs, resolveDateRange, runCommand } from './cli-args';
+import { PIPELINE_STEPS, PipelineStep, STEP_DEPENDENCIES } from './pipeline-steps';
+import { runReport } from './index';
+import { runCommits } from './github-commits';
+import { runSummarize } from './summarize';
+import { runDeliver } from './deliver';
+import { getYesterday } from './timezone';
+
+dotenv.config();
+
+const STEP_HANDLERS: Record<PipelineStep, (args: CliArgs) => Promise<void>> = {
+  report: runReport,
+  commits: runCommits,
+  summarize: runSummarize,
+  deliver: runDeliver,
+};
+
+// 'blocked' when a step it depends on did not succeed
+export type StepStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'blocked';
+
+export interface StepRecord {
+  name: PipelineStep;
+  status: StepStatus;
+  // The options the step ran with
+  inputs: Partial<CliArgs>;
+  attempts: number;
+  started_at?: string;
+  finished_at?: string;
+  duration_ms?: number;
+  error?: string;
+}
+
+/**
+ * The record of one run, saved after every step so an interrupted run can be resumed
+ */
+export interface RunManifest {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  status: 'running' | 'succeeded' | 'failed';
+  range: DateRange;
+  // The options of the run, reused when it is resumed
+  args: CliArgs;
+  steps: StepRecord[];
+}
+
+function getRunsDirectory(): string {
+  return path.join(process.cwd(), 'data', 'runs');
+}
+
+function getManifestPath(id: string): string {
+  return path.join(getRunsDirectory(), `${id}.json`);
+}
+
+async function writeManifest(manifest: RunManifest) {
+  manifest.updated_at = new Date().toISOString();
+  await fs.mkdir(getRunsDirectory(), { recursive: true });
+  await fs.writeFile(getManifestPath(manifest.id), JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Reads a run manifest by id, or the latest one
+ */
+async function readManifest(id?: string): Promise<RunManifest> {
+  let runId = id;
+  if (!runId) {
+    let files: string[] = [];
+    try {
+      files = (await fs.readdir(getRunsDirectory())).filter(file => /^run-.*\.json$/.test(file)).sort();
+    } catch (error) {
+      // No runs yet
+    }
+    if (files.length === 0) {
+      throw new CliError('There is no run to resume');
+    }
+    runId = files[files.length - 1].replace(/\.json$/, '');
+  }
+
+  try {
+    return JSON.parse(await fs.readFile(getManifestPath(runId), 'utf-8'));
+  } catch (error) {
+    throw new CliError(`Cannot read the manifest of run ${runId} in data/runs/`);
+  }
+}
+
+/**
+ * The options a step runs with. Deliveries are never resent by --force;
+ * use deliver --force for that.
+ */
+function getStepArgs(step: PipelineStep, args: CliArgs): CliArgs {
+  return step === 'deliver' ? { ...args, force: false } : args;
+}
+
+/**
+ * The options worth recording: those that differ from the defaults
+ */
+function describeInputs(args: CliArgs): Partial<CliArgs> {
+  const defaults = parseArgs([]);
+  const inputs: Partial<CliArgs> = {};
+  (Object.keys(args) as (keyof CliArgs)[]).forEach(key => {
+    if (key !== 'dryRun' && key !== 'steps' && key !== 'resume' && JSON.stringify(args[key]) !== JSON.stringify(defaults[key])) {
+      (inputs as Record<string, unknown>)[key] = args[key];
+    }
+  });
+  return inputs;
+}
+
+/**
+ * Runs the pending steps of a run in order, recording each in the manifest.
+ * A failed step blocks the steps that depend on it; independent ones still run.
+ */
+async function executeRun(manifest: RunManifest) {
+  manifest.status = 'running';
+  await writeManifest(manifest);
+
+  for (const record of manifest.steps) {
+    if (record.status === 'succeeded') {
+      console.log(`\n✔ ${record.name} already succeeded`);
+      continue;
+    }
+
+    const failedDependency = STEP_DEPENDENCIES[record.name].find(dependency => {
+      const dependencyRecord = manifest.steps.find(step => step.name === dependency);
+      return dependencyRecord && dependencyRecord.status !== 'succeeded';
+    });
+    if (failedDependency) {
+      record.status = 'blocked';
+      record.error = `${failedDependency} did not succeed`;
+      console.log(`\n⏸ ${record.name} blocked: ${record.error}`);
+      await writeManifest(manifest);
+      continue;
+    }
+
+    console.log(`\n▶ ${record.name}`);
+    const stepArgs = getStepArgs(record.name, manifest.args);
+    const started = Date.now();
+    Object.assign(record, {
+      status: 'running',
+      inputs: describeInputs(stepArgs),
+      attempts: record.attempts + 1,
+      started_at: new Date(started).toISOString(),
+      finished_at: undefined,
+      duration_ms: undefined,
+      error: undefined,
+    });
+    await writeManifest(manifest);
+
+    try {
+      await STEP_HANDLERS[record.name](stepArgs);
+      record.status = 'succeeded';
+    } catch (error) {
+      record.status = 'failed';
+      record.error = error instanceof Error ? error.message : String(error);
+      console.error(`❌ ${record.name} failed: ${record.error}`);
+    }
+    record.finished_at = new Date().toISOString();
+    record.duration_ms = Date.now() - started;
+    await writeManifest(manifest);
+  }
+
+  manifest.status = manifest.steps.every(step => step.status === 'succeeded') ? 'succeeded' : 'failed';
+  await writeManifest(manifest);
+
+  console.log(`\nRun ${manifest.id} (${manifest.range.from} to ${manifest.range.to}) ${manifest.status}:`);
+  manifest.steps.forEach(step => {
+    const duration = step.duration_ms !== undefined ? ` in ${(step.duration_ms / 1000).toFixed(1)}s` : '';
+    console.log(`  ${step.name}: ${step.status}${duration}`);
+  });
+}
+
+/**
+ * Starts a new run of the given steps; the returned manifest tells how it went
+ */
+export async function startRun(args: CliArgs, steps: PipelineStep[]): Promise<RunManifest> {
+  const yesterday = getYesterday();
+  // Every step gets the same dates; their own defaults differ (commits: last month)
+  const runArgs: CliArgs = resolveDateRange(args) ? args : { ...args, date: yesterday };
+  const now = new Date();
+
+  const manifest: RunManifest = {
+    id: `run-${format(now, 'yyyyMMdd-HHmmss')}`,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    status: 'running',
+    range: resolveDateRange(runArgs)!,
+    args: runArgs,
+    steps: PIPELINE_STEPS.filter(step => steps.includes(step)).map(name => ({ name, status: 'pending', inputs: {}, attempts: 0 })),
+  };
+
+  console.log(`Run ${manifest.id}: ${manifest.steps.map(step => step.name).join(' → ')} from ${manifest.range.from} to ${manifest.range.to}`);
+  await executeRun(manifest);
+  return manifest;
+}
+
+/**
+ * Runs the run command: a new run, or the resumption of an earlier one
+ */
+export async function runPipeline(args: CliArgs) {
+  const steps = args.steps.length > 0 ? args.steps : PIPELINE_STEPS;
+
+  if (args.dryRun) {
+    const range = resolveDateRange(args);
+    console.log(`Would run ${PIPELINE_STEPS.filter(step => steps.includes(step)).join(' → ')} ${range ? `from ${range.from} to ${range.to}` : 'for yesterday'}`);
+    return;
+  }
+
+  let manifest: RunManifest;
+  if (args.resume !== undefined) {
+    manifest = await readManifest(args.resume || undefined);
+    if (manifest.status === 'succeeded') {
+      console.log(`Run ${manifest.id} already succeeded; nothing to resume`);
+      return;
+    }
+    console.log(`Resuming ${manifest.id} from ${manifest.range.from} to ${manifest.range.to}`);
+    await executeRun(manifest);
+  } else {
+    manifest = await startRun(args, steps);
+  }
+
+  if (manifest.status !== 'succeeded') {
+    throw new Error(`Run ${manifest.id} failed; fix the cause and resume it with run --resume ${manifest.id}`);
+  }
+}
+
+if (require.main === module) {
+  runCommand('run', process.argv.slice(2), runPipeline);
+}
@@ -0,0 +1,189 @@
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ReportHour } from './report';
+
+dotenv.config();
+
+// How many unattributed titles a report lists, to help refine the rules
+const TOP_UNATTRIBUTED = 10;
+
+export interface ProjectRule {
+  name: string;
+  // Used by timesheet exports
+  client?: string;
+  // Case-insensitive; a window title matching any of them belongs to the project
+  titles: RegExp[];
+  // Lowercased; every window of these applications belongs to the project
+  applications: string[];
+  // Lowercased owner/name of repositories in commit files that belong to the project
+  repositories: string[];
+}
+
+export interface ProjectTime {
+  name: string;
+  seconds: number;
+  // Share of the day's window time
+  percentage: number;
+}
+
+export interface UnattributedTitle {
+  title: string;
+  application: string;
+  seconds: number;
+}
+
+export interface ProjectAttribution {
+  // Sorted by time, descending
+  projects: ProjectTime[];
+  unattributed_seconds: number;
+  unattributed_percentage: number;
+  // The longest unattributed titles, for writing new rules
+  top_unattributed: UnattributedTitle[];
+}
+
+// The shape of projects.json
+interface ProjectsFile {
+  projects?: {
+    name?: string;
+    client?: string;
+    titles?: string[];
+    applications?: string[];
+    repositories?: string[];
+  }[];
+}
+
+export function getProjectsConfigPath(): string {
+  return path.resolve(process.env.PROJECTS_CONFIG || path.join(process.cwd(), 'projects.json'));
+}
+
+/**
+ * Reads the project rules from projects.json (or PROJECTS_CONFIG); none without the file
+ */
+export async function loadProjectRules(): Promise<ProjectRule[]> {
+  const configPath = getProjectsConfigPath();
+
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch (error) {
+    if (process.env.PROJECTS_CONFIG) {
+      throw new Error(`Cannot read PROJECTS_CONFIG file ${configPath}`);
+    }
+    return [];
+  }
+
+  let file: ProjectsFile;
+  try {
+    file = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${configPath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return (file.projects || []).map((project, index) => {
+    if (!project.name) {
+      throw new Error(`${configPath}: project ${index + 1} has no name`);
+    }
+    return {
+      name: project.name,
+      client: project.client,
+      titles: (project.titles || []).map(pattern => {
+        try {
+          return new RegExp(pattern, 'i');
+        } catch (error) {
+          throw new Error(`${configPath}: invalid title pattern "${pattern}" in project "${project.name}"`);
+        }
+      }),
+      applications: (project.applications || []).map(application => application.toLowerCase()),
+      repositories: (project.repositories || []).map(repository => repository.toLowerCase()),
+    };
+  });
+}
+
+/**
+ * Lists the repositories (owner/name) in the commit file of a date
+ */
+export async function readCommitRepositories(date: string): Promise<string[]> {
+  try {
+    const content = await fs.readFile(path.join(process.cwd(), 'context', 'commits', `github-commits-${date}.md`), 'utf-8');
+    return [...content.matchAll(/^## (.+)$/gm)].map(match => match[1].trim());
+  } catch (error) {
+    return [];
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Rules for the day's committed repositories, matching titles that contain the repository name.
+ * A repository listed by a configured project counts towards that project.
+ */
+function getRepositoryRules(repositories: string[], rules: ProjectRule[]): ProjectRule[] {
+  return repositories.map(repository => {
+    const shortName = repository.split('/').pop() || repository;
+    const owner = rules.find(rule => rule.repositories.includes(repository.toLowerCase()));
+    return {
+      name: owner ? owner.name : repository,
+      // The name as a whole word, so "api" does not match "rapid"
+      titles: [new RegExp(`(^|[^\\w-])${escapeRegExp(shortName)}($|[^\\w-])`, 'i')],
+      applications: [],
+      repositories: [],
+    };
+  });
+}
+
+function findProject(title: string, application: string, rules: ProjectRule[]): string | undefined {
+  const lowerApplication = application.toLowerCase();
+  return rules.find(rule =>
+    rule.applications.includes(lowerApplication) || rule.titles.some(pattern => pattern.test(title))
+  )?.name;
+}
+
+/**
+ * Splits a day's window time between projects. Configured rules are tried in order,
+ * then the repositories from the day's commit file. Returns null when there are no rules.
+ */
+export function attributeProjects(hours: ReportHour[], rules: ProjectRule[], repositories: string[]): ProjectAttribution | null {
+  const allRules = [...rules, ...getRepositoryRules(repositories, rules)];
+  if (allRules.length === 0) {
+    return null;
+  }
+
+  const projectSeconds: Record<string, number> = {};
+  const unattributed: Record<string, UnattributedTitle> = {};
+  let totalSeconds = 0;
+  let unattributedSeconds = 0;
+
+  hours.forEach(({ documents }) => {
+    documents.forEach(document => {
+      totalSeconds += document.time_spent_seconds;
+      const project = findProject(document.title, document.application, allRules);
+      if (project) {
+        projectSeconds[project] = (projectSeconds[project] || 0) + document.time_spent_seconds;
+        return;
+      }
+
+      unattributedSeconds += document.time_spent_seconds;
+      const key = `${document.application}\n${document.title}`;
+      if (!unattributed[key]) {
+        unattributed[key] = { title: document.title, application: document.application, seconds: 0 };
+      }
+      unattributed[key].seconds += document.time_spent_seconds;
+    });
+  });
+
+  const toPercentage = (seconds: number) => (totalSeconds > 0 ? Math.round(seconds / totalSeconds * 1000) / 10 : 0);
+
+  return {
+    projects: Object.keys(projectSeconds)
+      .map(name => ({ name, seconds: projectSeconds[name], percentage: toPercentage(projectSeconds[name]) }))
+      .sort((a, b) => b.seconds - a.seconds),
+    unattributed_seconds: unattributedSeconds,
+    unattributed_percentage: toPercentage(unattributedSeconds),
+    top_unattributed: Object.values(unattributed)
+      .sort((a, b) => b.seconds - a.seconds)
+      .slice(0, TOP_UNATTRIBUTED),
+  };
+}
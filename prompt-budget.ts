@@ -0,0 +1,116 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+export type SummaryMode = 'auto' | 'single' | 'map-reduce';
+
+export const SUMMARY_MODES: SummaryMode[] = ['auto', 'single', 'map-reduce'];
+
+export interface PromptBudget {
+  // Input tokens allowed per request, system prompt included
+  maxInputTokens: number;
+  // Size of each hourly segment summarized separately in map-reduce mode
+  chunkTokens: number;
+  // auto switches to map-reduce when the report takes more than its share of the budget
+  mode: SummaryMode;
+}
+
+// How much of a budgeted input made it into the prompt
+export interface InputUsage {
+  name: string;
+  includedTokens: number;
+  totalTokens: number;
+}
+
+const DEFAULT_MAX_INPUT_TOKENS = 12000;
+const DEFAULT_CHUNK_TOKENS = 3000;
+
+// Rough average for English text and Markdown; errs on the high side for code-heavy titles
+const CHARS_PER_TOKEN = 4;
+
+const TRUNCATION_MARKER = '\n[... truncated to fit the token budget]\n';
+
+export function isSummaryMode(name: string): name is SummaryMode {
+  return (SUMMARY_MODES as string[]).includes(name);
+}
+
+/**
+ * Builds the prompt budget from SUMMARY_* environment variables and per-run overrides
+ */
+export function resolvePromptBudget(overrides: Partial<PromptBudget> = {}): PromptBudget {
+  const envMode = process.env.SUMMARY_MODE || 'auto';
+  if (!isSummaryMode(envMode)) {
+    throw new Error(`SUMMARY_MODE must be one of ${SUMMARY_MODES.join(', ')}, got "${envMode}"`);
+  }
+
+  const envMaxInputTokens = process.env.SUMMARY_MAX_INPUT_TOKENS ? parseInt(process.env.SUMMARY_MAX_INPUT_TOKENS, 10) : undefined;
+  const envChunkTokens = process.env.SUMMARY_CHUNK_TOKENS ? parseInt(process.env.SUMMARY_CHUNK_TOKENS, 10) : undefined;
+
+  const budget: PromptBudget = {
+    maxInputTokens: overrides.maxInputTokens ?? envMaxInputTokens ?? DEFAULT_MAX_INPUT_TOKENS,
+    chunkTokens: overrides.chunkTokens ?? envChunkTokens ?? DEFAULT_CHUNK_TOKENS,
+    mode: overrides.mode || envMode,
+  };
+
+  if (!(budget.maxInputTokens > 0) || !(budget.chunkTokens > 0)) {
+    throw new Error('SUMMARY_MAX_INPUT_TOKENS and SUMMARY_CHUNK_TOKENS must be positive integers');
+  }
+  if (budget.chunkTokens >= budget.maxInputTokens) {
+    throw new Error(`The chunk size (${budget.chunkTokens} tokens) must be smaller than the input budget (${budget.maxInputTokens} tokens)`);
+  }
+
+  return budget;
+}
+
+/**
+ * Estimates the number of tokens in a text without a model-specific tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cuts a text down to about the given number of tokens, at a line boundary when possible
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  const maxChars = Math.max(0, maxTokens * CHARS_PER_TOKEN - TRUNCATION_MARKER.length);
+  const cut = text.slice(0, maxChars);
+  const lastNewline = cut.lastIndexOf('\n');
+  return (lastNewline > maxChars / 2 ? cut.slice(0, lastNewline) : cut) + TRUNCATION_MARKER;
+}
+
+/**
+ * Groups sections into chunks of at most maxTokens each, keeping sections whole
+ * unless a single section is larger than a chunk
+ */
+export function chunkSections(sections: string[], maxTokens: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const section of sections) {
+    const fitted = truncateToTokens(section, maxTokens);
+    if (current && estimateTokens(current + fitted) > maxTokens) {
+      chunks.push(current);
+      current = '';
+    }
+    current += fitted;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Formats usage as e.g. "report 3200/3200, commits 800/1500 tokens"
+ */
+export function formatUsage(usage: InputUsage[]): string {
+  return usage
+    .map(input => `${input.name} ${input.includedTokens}/${input.totalTokens}`)
+    .join(', ') + ' tokens';
+}
@@ -0,0 +1,327 @@
+import { createHash } from 'crypto';
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DailyReport } from './report';
+
+dotenv.config();
+
+// mask replaces with [redacted], hash with a stable [redacted:1a2b3c4d], remove drops the entry
+export type RedactionMode = 'mask' | 'hash' | 'remove';
+
+export const REDACTION_MODES: RedactionMode[] = ['mask', 'hash', 'remove'];
+
+export interface RedactionPolicy {
+  mode: RedactionMode;
+  // Matches are redacted from titles and activity names
+  patterns: RegExp[];
+  // Lowercased; every window title of these applications is redacted
+  applications: string[];
+  // Lowercased; when not empty, URLs and domains outside these (and their subdomains) are redacted
+  allowedDomains: string[];
+  // Drops ?query and #fragment from URLs that are kept, since they often carry tokens
+  stripQueryStrings: boolean;
+}
+
+// "local" applies to everything written to reports/, "llm" on top of it to what summarize sends
+export interface RedactionConfig {
+  local: RedactionPolicy;
+  llm: RedactionPolicy;
+}
+
+export interface RedactionChange {
+  original: string;
+  // Null when the entry is removed
+  redacted: string | null;
+}
+
+// The shape of redaction.json
+interface PolicyFile {
+  mode?: string;
+  patterns?: string[];
+  applications?: string[];
+  allowed_domains?: string[];
+  strip_query_strings?: boolean;
+}
+
+const URL_PATTERN = /\b(?:https?|ftp):\/\/[^\s<>()"'\]]+/gi;
+// Bare host names such as mail.google.com; limited to common TLDs so file names like notes.md are left alone
+const DOMAIN_PATTERN = /\b((?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+(?:com|org|net|io|dev|app|ai|co|gov|edu|info|biz|me|so|us|uk|de|fr|nl|eu|ca|au|jp|cloud|site|xyz))\b(?![.\w-])/gi;
+
+// How a window title line of the Markdown report looks: "- **title** (10m) - Application (label)"
+// or "  - **title** (10m) - Application" in the unattributed part of Time by Project
+const DOCUMENT_LINE = /^(\s*)- \*\*(.*)\*\* \((.+?)\) - (.+?)( \([^()]+\))?$/;
+
+const REDACTED_TITLE = /^\[redacted(?::[0-9a-f]{8})?\]$/;
+
+const EMPTY_POLICY: RedactionPolicy = {
+  mode: 'mask',
+  patterns: [],
+  applications: [],
+  allowedDomains: [],
+  stripQueryStrings: false,
+};
+
+export function getRedactionConfigPath(): string {
+  return path.resolve(process.env.REDACTION_CONFIG || path.join(process.cwd(), 'redaction.json'));
+}
+
+function isRedactionMode(name: string): name is RedactionMode {
+  return (REDACTION_MODES as string[]).includes(name);
+}
+
+function parsePolicy(file: PolicyFile | undefined, name: string, configPath: string): RedactionPolicy {
+  if (!file) {
+    return EMPTY_POLICY;
+  }
+
+  const mode = file.mode || 'mask';
+  if (!isRedactionMode(mode)) {
+    throw new Error(`${configPath}: ${name}.mode must be one of ${REDACTION_MODES.join(', ')}, got "${mode}"`);
+  }
+
+  const patterns = (file.patterns || []).map(pattern => {
+    try {
+      return new RegExp(pattern, 'gi');
+    } catch (error) {
+      throw new Error(`${configPath}: invalid pattern "${pattern}" in ${name}.patterns`);
+    }
+  });
+
+  return {
+    mode,
+    patterns,
+    applications: (file.applications || []).map(application => application.toLowerCase()),
+    allowedDomains: (file.allowed_domains || []).map(domain => domain.toLowerCase().replace(/^\*?\./, '')),
+    stripQueryStrings: file.strip_query_strings ?? true,
+  };
+}
+
+/**
+ * Reads redaction.json (or REDACTION_CONFIG); without one nothing is redacted
+ */
+export async function loadRedactionConfig(): Promise<RedactionConfig> {
+  const configPath = getRedactionConfigPath();
+
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch (error) {
+    if (process.env.REDACTION_CONFIG) {
+      throw new Error(`Cannot read REDACTION_CONFIG file ${configPath}`);
+    }
+    return { local: EMPTY_POLICY, llm: EMPTY_POLICY };
+  }
+
+  let file: { local?: PolicyFile; llm?: PolicyFile };
+  try {
+    file = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${configPath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return {
+    local: parsePolicy(file.local, 'local', configPath),
+    llm: parsePolicy(file.llm, 'llm', configPath),
+  };
+}
+
+export function isPolicyEmpty(policy: RedactionPolicy): boolean {
+  return policy.patterns.length === 0 && policy.applications.length === 0 &&
+    policy.allowedDomains.length === 0 && !policy.stripQueryStrings;
+}
+
+function replacement(text: string, policy: RedactionPolicy): string {
+  if (policy.mode === 'hash') {
+    return `[redacted:${createHash('sha256').update(text).digest('hex').slice(0, 8)}]`;
+  }
+  return '[redacted]';
+}
+
+function isAllowedDomain(host: string, policy: RedactionPolicy): boolean {
+  const domain = host.toLowerCase();
+  return policy.allowedDomains.length === 0 ||
+    policy.allowedDomains.some(allowed => domain === allowed || domain.endsWith(`.${allowed}`));
+}
+
+/**
+ * Applies the policy's URL, domain and pattern rules to a title; null when it should be removed
+ */
+export function redactValue(value: string, policy: RedactionPolicy): string | null {
+  let redacted = false;
+  const redact = (match: string) => {
+    redacted = true;
+    return replacement(match, policy);
+  };
+
+  let text = value.replace(URL_PATTERN, url => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (error) {
+      return url;
+    }
+    if (!isAllowedDomain(parsed.hostname, policy)) {
+      return redact(url);
+    }
+    if (policy.stripQueryStrings && (parsed.search || parsed.hash)) {
+      return `${parsed.origin}${parsed.pathname}`;
+    }
+    return url;
+  });
+
+  // Bare domains outside URLs, e.g. activity names and "Inbox - mail.example.com" titles
+  if (policy.allowedDomains.length > 0) {
+    text = text.replace(DOMAIN_PATTERN, domain => (isAllowedDomain(domain, policy) ? domain : redact(domain)));
+  }
+
+  policy.patterns.forEach(pattern => {
+    text = text.replace(pattern, match => redact(match));
+  });
+
+  return redacted && policy.mode === 'remove' ? null : text;
+}
+
+/**
+ * Redacts a window title, hiding it entirely for deny-listed applications
+ */
+export function redactDocumentTitle(title: string, application: string, policy: RedactionPolicy): string | null {
+  // Already redacted when the report was written
+  if (REDACTED_TITLE.test(title)) {
+    return title;
+  }
+  if (policy.applications.includes(application.toLowerCase())) {
+    return policy.mode === 'remove' ? null : replacement(title, policy);
+  }
+  return redactValue(title, policy);
+}
+
+/**
+ * Redacts a list of entries by one of their text fields, dropping removed ones and recording changes
+ */
+function redactEntries<T>(
+  entries: T[],
+  redact: (entry: T) => string | null,
+  getText: (entry: T) => string,
+  setText: (entry: T, text: string) => T,
+  changes: RedactionChange[]
+): T[] {
+  const kept: T[] = [];
+  entries.forEach(entry => {
+    const original = getText(entry);
+    const redacted = redact(entry);
+    if (redacted !== original) {
+      changes.push({ original, redacted });
+    }
+    if (redacted !== null) {
+      kept.push(redacted === original ? entry : setText(entry, redacted));
+    }
+  });
+  return kept;
+}
+
+/**
+ * Applies a policy to the activity names, window titles and meeting titles of a report
+ */
+export function redactDailyReport(report: DailyReport, policy: RedactionPolicy): { report: DailyReport; changes: RedactionChange[] } {
+  const changes: RedactionChange[] = [];
+  if (isPolicyEmpty(policy)) {
+    return { report, changes };
+  }
+
+  const redacted: DailyReport = {
+    ...report,
+    activities: redactEntries(
+      report.activities,
+      activity => redactValue(activity.activity, policy),
+      activity => activity.activity,
+      (activity, text) => ({ ...activity, activity: text }),
+      changes
+    ),
+    hourly_documents: report.hourly_documents.map(({ hour, documents }) => ({
+      hour,
+      documents: redactEntries(
+        documents,
+        document => redactDocumentTitle(document.title, document.application, policy),
+        document => document.title,
+        (document, text) => ({ ...document, title: text }),
+        changes
+      ),
+    })),
+    projects: report.projects && {
+      ...report.projects,
+      top_unattributed: redactEntries(
+        report.projects.top_unattributed,
+        entry => redactDocumentTitle(entry.title, entry.application, policy),
+        entry => entry.title,
+        (entry, text) => ({ ...entry, title: text }),
+        changes
+      ),
+    },
+    // Removed meetings still count towards meeting time
+    meetings: report.meetings && {
+      ...report.meetings,
+      meetings: redactEntries(
+        report.meetings.meetings,
+        meeting => redactValue(meeting.title, policy),
+        meeting => meeting.title,
+        (meeting, text) => ({ ...meeting, title: text }),
+        changes
+      ),
+    },
+  };
+
+  return { report: redacted, changes };
+}
+
+/**
+ * Redacts a Markdown report line by line: window titles by their application, other lines as text
+ */
+export function redactMarkdown(markdown: string, policy: RedactionPolicy): { text: string; changes: RedactionChange[] } {
+  const changes: RedactionChange[] = [];
+  if (isPolicyEmpty(policy)) {
+    return { text: markdown, changes };
+  }
+
+  const lines = redactEntries(
+    markdown.split('\n'),
+    line => {
+      const document = line.match(DOCUMENT_LINE);
+      if (!document) {
+        return redactValue(line, policy);
+      }
+      const [, indent, title, time, application, label = ''] = document;
+      const redacted = redactDocumentTitle(title, application, policy);
+      return redacted === null ? null : `${indent}- **${redacted}** (${time}) - ${application}${label}`;
+    },
+    line => line,
+    (_, text) => text,
+    changes
+  );
+
+  return { text: lines.join('\n'), changes };
+}
+
+/**
+ * Applies the local and then the LLM redaction policy to text bound for the prompt.
+ * The local policy runs again so reports written before it was configured are covered.
+ */
+export function redactForLlm(text: string, redaction: RedactionConfig): { text: string; changes: RedactionChange[] } {
+  const local = redactMarkdown(text, redaction.local);
+  const llm = redactMarkdown(local.text, redaction.llm);
+  return { text: llm.text, changes: [...local.changes, ...llm.changes] };
+}
+
+/**
+ * Prints what a policy changed, for dry runs
+ */
+export function logRedactions(label: string, changes: RedactionChange[]) {
+  if (changes.length === 0) {
+    console.log(`  ${label}: nothing to redact`);
+    return;
+  }
+  console.log(`  ${label}: ${changes.length} redacted`);
+  changes.forEach(change => {
+    console.log(`    ${JSON.stringify(change.original)} -> ${change.redacted === null ? '(removed)' : JSON.stringify(change.redacted)}`);
+  });
+}
@@ -0,0 +1,428 @@
+import { format, parseISO } from 'date-fns';
+import { formatTime } from './rescuetime';
+import { DailyReport, ReportMeta, REPORT_SCHEMA_VERSION } from './report';
+import { formatFrontMatter } from './front-matter';
+import { formatMeeting } from './calendar';
+import { GoalResult, formatGoalValue, isDurationMetric } from './goals';
+import { toZonedTime } from './timezone';
+import { formatScore } from './scoring';
+import { formatCategoryNode } from './categories';
+
+export type ReportFormat = 'markdown' | 'json' | 'csv' | 'html';
+
+export interface ReportRenderer {
+  // File extension without the dot
+  extension: string;
+  render(report: DailyReport, meta: ReportMeta): string;
+  // Output for a day RescueTime has no data for
+  renderEmpty(date: string, meta: ReportMeta): string;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function getTitle(date: string): string {
+  return `RescueTime Daily Report for ${format(parseISO(date), 'EEEE, MMMM do, yyyy')}`;
+}
+
+function formatMeetingTotal(report: DailyReport): string {
+  const { meeting_seconds, percentage_of_tracked } = report.meetings!;
+  return `Meeting time: ${formatTime(meeting_seconds)} of ${formatTime(report.summary.total_seconds)} tracked (${percentage_of_tracked.toFixed(1)}%)`;
+}
+
+const GOAL_ICONS: Record<GoalResult['status'], string> = { passed: '✅', failed: '❌', no_data: '➖' };
+
+function formatGoal(goal: GoalResult): string {
+  if (goal.value === null) {
+    return `${GOAL_ICONS[goal.status]} ${goal.name}: no data`;
+  }
+  const streak = goal.streak === 1 ? '1 day' : `${goal.streak} days`;
+  return `${GOAL_ICONS[goal.status]} ${goal.name}: ${formatGoalValue(goal.metric, goal.value)} (streak: ${streak}, best: ${goal.best_streak})`;
+}
+
+function formatFocusTotals(report: DailyReport): string[] {
+  const focus = report.focus!;
+  return [
+    `Deep work: ${formatTime(focus.deep_work_seconds)} in ${focus.deep_work_blocks.length} block${focus.deep_work_blocks.length === 1 ? '' : 's'}`,
+    `Longest focus stretch: ${focus.longest_focus ? `${formatTime(focus.longest_focus.seconds)} (${focus.longest_focus.start}-${focus.longest_focus.end})` : 'none'}`,
+    `Context switches: ${focus.total_context_switches}`,
+    `Fragmentation score: ${focus.fragmentation_score}/100`,
+  ];
+}
+
+function formatHourSwitches(report: DailyReport): string {
+  return report.focus!.context_switches.map(({ hour, switches }) => `${hour} ${switches}`).join(', ');
+}
+
+const markdownRenderer: ReportRenderer = {
+  extension: 'md',
+
+  render(report, meta) {
+    const { summary } = report;
+    let markdown = formatFrontMatter({ ...meta });
+    markdown += `# ${getTitle(report.date)}\n\n`;
+
+    markdown += `## Summary\n`;
+    markdown += `- Total time tracked: ${summary.total_duration_formatted} (${(summary.total_seconds / 3600).toFixed(2)} hours)\n`;
+    markdown += `- Total Productive time: ${formatTime(summary.productive_seconds)} (${(summary.productive_seconds / 3600).toFixed(1)} h)\n`;
+    markdown += `- Productivity pulse: ${summary.productivity_pulse}/100\n`;
+    report.scores?.forEach(score => {
+      markdown += `- ${score.name}: ${formatScore(score.value)}\n`;
+    });
+    markdown += '\n';
+
+    markdown += `## Time Distribution\n`;
+    report.distribution.forEach(entry => {
+      markdown += `- ${capitalize(entry.label)}: ${entry.duration_formatted} (${entry.percentage.toFixed(1)}%)\n`;
+    });
+    markdown += '\n';
+
+    if (report.goals) {
+      markdown += `## Goals\n`;
+      report.goals.forEach(goal => {
+        markdown += `- ${formatGoal(goal)}\n`;
+      });
+      markdown += '\n';
+    }
+
+    if (report.meetings) {
+      markdown += `## Meetings\n`;
+      markdown += `- ${formatMeetingTotal(report)}\n`;
+      report.meetings.meetings.forEach(meeting => {
+        markdown += `- ${formatMeeting(meeting)}\n`;
+      });
+      markdown += '\n';
+    }
+
+    if (report.projects) {
+      markdown += `## Time by Project\n`;
+      report.projects.projects.forEach(project => {
+        markdown += `- ${project.name}: ${formatTime(project.seconds)} (${project.percentage.toFixed(1)}%)\n`;
+      });
+      markdown += `- Unattributed: ${formatTime(report.projects.unattributed_seconds)} (${report.projects.unattributed_percentage.toFixed(1)}%)\n`;
+      report.projects.top_unattributed.forEach(entry => {
+        markdown += `  - **${entry.title}** (${formatTime(entry.seconds)}) - ${entry.application}\n`;
+      });
+      markdown += '\n';
+    }
+
+    if (report.focus) {
+      markdown += `## Focus\n`;
+      formatFocusTotals(report).forEach(line => {
+        markdown += `- ${line}\n`;
+      });
+      report.focus.deep_work_blocks.forEach(block => {
+        markdown += `  - ${block.start}-${block.end} (${formatTime(block.seconds)})\n`;
+      });
+      if (report.focus.context_switches.length > 0) {
+        markdown += `- Switches per hour: ${formatHourSwitches(report)}\n`;
+      }
+      markdown += '\n';
+    }
+
+    if (report.categories) {
+      markdown += `## Categories\n`;
+      report.categories.forEach(overview => {
+        markdown += `- ${formatCategoryNode(overview)}\n`;
+        overview.children.forEach(category => {
+          markdown += `  - ${formatCategoryNode(category)}\n`;
+        });
+      });
+      markdown += '\n';
+    }
+
+    if (report.activities.length > 0) {
+      markdown += `## Top Activities\n`;
+
+      // Show top 15 activities
+      report.activities.slice(0, 15).forEach(activity => {
+        markdown += `- ${activity.activity} (${formatTime(activity.time_spent_seconds)}) - ${activity.category} (${activity.productivity_label})\n`;
+      });
+
+      markdown += '\n';
+    }
+
+    // Add hourly breakdown with tab titles
+    if (report.hourly_documents.length > 0) {
+      markdown += `## Hourly Breakdown with Tab Titles\n\n`;
+
+      report.hourly_documents.forEach(({ hour, documents }) => {
+        markdown += `### ${hour}\n\n`;
+
+        // Get top 10 documents for each hour
+        const topDocs = documents.slice(0, 10);
+
+        if (topDocs.length > 0) {
+          topDocs.forEach(doc => {
+            markdown += `- **${doc.title}** (${formatTime(doc.time_spent_seconds)}) - ${doc.application} (${doc.productivity_label})\n`;
+          });
+        } else {
+          markdown += `No detailed data available for this hour.\n`;
+        }
+
+        markdown += '\n';
+      });
+    }
+
+    return markdown;
+  },
+
+  renderEmpty(date, meta) {
+    return formatFrontMatter({ ...meta }) + `No data found for ${date}`;
+  },
+};
+
+// See "JSON output" in the README for the contract
+const jsonRenderer: ReportRenderer = {
+  extension: 'json',
+
+  render(report, meta) {
+    return JSON.stringify({ schema_version: REPORT_SCHEMA_VERSION, date: report.date, meta, data: report }, null, 2);
+  },
+
+  renderEmpty(date, meta) {
+    return JSON.stringify({ schema_version: REPORT_SCHEMA_VERSION, date, meta, data: null }, null, 2);
+  },
+};
+
+const CSV_HEADER = ['date', 'kind', 'hour', 'name', 'group', 'productivity', 'productivity_label', 'time_spent_seconds'];
+
+/**
+ * Quotes a CSV field when it contains a separator, quote or line break
+ */
+export function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per activity (group = category), per overview category and category
+// (group = overview category, productivity = pulse), per hourly document (group = application),
+// per meeting (hour = start time, group = location), per project,
+// per deep-work block (hour = start time, name = end time)
+// and per goal (group = status, time = the value of duration goals)
+const csvRenderer: ReportRenderer = {
+  extension: 'csv',
+
+  render(report) {
+    const rows: (string | number)[][] = [CSV_HEADER];
+
+    report.activities.forEach(activity => {
+      rows.push([report.date, 'activity', '', activity.activity, activity.category, activity.productivity, activity.productivity_label, activity.time_spent_seconds]);
+    });
+
+    report.categories?.forEach(overview => {
+      rows.push([report.date, 'category', '', overview.name, '', overview.productivity_pulse ?? '', '', overview.seconds]);
+      overview.children.forEach(category => {
+        rows.push([report.date, 'category', '', category.name, overview.name, category.productivity_pulse ?? '', '', category.seconds]);
+      });
+    });
+
+    report.hourly_documents.forEach(({ hour, documents }) => {
+      documents.forEach(doc => {
+        rows.push([report.date, 'document', hour, doc.title, doc.application, doc.productivity, doc.productivity_label, doc.time_spent_seconds]);
+      });
+    });
+
+    report.meetings?.meetings.forEach(meeting => {
+      const hour = meeting.all_day ? '' : toZonedTime(meeting.start).slice(11, 16);
+      rows.push([report.date, 'meeting', hour, meeting.title, meeting.location || '', '', '', meeting.duration_seconds]);
+    });
+
+    if (report.projects) {
+      report.projects.projects.forEach(project => {
+        rows.push([report.date, 'project', '', project.name, '', '', '', project.seconds]);
+      });
+      rows.push([report.date, 'project', '', 'Unattributed', '', '', '', report.projects.unattributed_seconds]);
+    }
+
+    report.focus?.deep_work_blocks.forEach(block => {
+      rows.push([report.date, 'deep_work', block.start, block.end, '', '', '', block.seconds]);
+    });
+
+    report.scores?.forEach(score => {
+      rows.push([report.date, 'score', '', score.name, '', score.value ?? '', '', '']);
+    });
+
+    report.goals?.forEach(goal => {
+      const seconds = goal.value !== null && isDurationMetric(goal.metric) ? goal.value : '';
+      rows.push([report.date, 'goal', '', goal.name, goal.status, '', '', seconds]);
+    });
+
+    return rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+  },
+
+  renderEmpty() {
+    return CSV_HEADER.join(',') + '\n';
+  },
+};
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLE = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #222; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; }
+  th, td { text-align: left; padding: 0.3rem 0.6rem; border-bottom: 1px solid #ddd; vertical-align: top; }
+  td.time { white-space: nowrap; text-align: right; }
+  .bar { height: 0.8rem; background: #4a90d9; }
+`;
+
+/**
+ * Wraps body HTML into a standalone page
+ */
+export function renderHtmlPage(title: string, body: string, extraStyle = ''): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}${extraStyle}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function renderHtmlMetaFooter(meta: ReportMeta): string {
+  const status = meta.complete ? 'complete' : `incomplete, data through ${meta.data_through}`;
+  return `<footer><small>Generated at ${escapeHtml(meta.generated_at)} from ${meta.source} (${escapeHtml(status)})</small></footer>\n`;
+}
+
+const htmlRenderer: ReportRenderer = {
+  extension: 'html',
+
+  render(report, meta) {
+    const { summary } = report;
+    const title = getTitle(report.date);
+    let html = `<h1>${escapeHtml(title)}</h1>\n`;
+
+    html += `<h2>Summary</h2>\n<ul>\n`;
+    html += `<li>Total time tracked: ${escapeHtml(summary.total_duration_formatted)} (${(summary.total_seconds / 3600).toFixed(2)} hours)</li>\n`;
+    html += `<li>Total Productive time: ${formatTime(summary.productive_seconds)} (${(summary.productive_seconds / 3600).toFixed(1)} h)</li>\n`;
+    html += `<li>Productivity pulse: ${summary.productivity_pulse}/100</li>\n`;
+    report.scores?.forEach(score => {
+      html += `<li>${escapeHtml(score.name)}: ${formatScore(score.value)}</li>\n`;
+    });
+    html += `</ul>\n`;
+
+    html += `<h2>Time Distribution</h2>\n<table>\n`;
+    report.distribution.forEach(entry => {
+      html += `<tr><td>${capitalize(entry.label)}</td><td class="time">${escapeHtml(entry.duration_formatted)}</td>`;
+      html += `<td class="time">${entry.percentage.toFixed(1)}%</td>`;
+      html += `<td><div class="bar" style="width: ${entry.percentage.toFixed(1)}%"></div></td></tr>\n`;
+    });
+    html += `</table>\n`;
+
+    if (report.goals) {
+      html += `<h2>Goals</h2>\n<ul>\n`;
+      report.goals.forEach(goal => {
+        html += `<li>${escapeHtml(formatGoal(goal))}</li>\n`;
+      });
+      html += `</ul>\n`;
+    }
+
+    if (report.meetings) {
+      html += `<h2>Meetings</h2>\n<p>${escapeHtml(formatMeetingTotal(report))}</p>\n<ul>\n`;
+      report.meetings.meetings.forEach(meeting => {
+        html += `<li>${escapeHtml(formatMeeting(meeting))}</li>\n`;
+      });
+      html += `</ul>\n`;
+    }
+
+    if (report.projects) {
+      html += `<h2>Time by Project</h2>\n<table>\n`;
+      report.projects.projects.forEach(project => {
+        html += `<tr><td>${escapeHtml(project.name)}</td><td class="time">${formatTime(project.seconds)}</td>`;
+        html += `<td class="time">${project.percentage.toFixed(1)}%</td></tr>\n`;
+      });
+      html += `<tr><td><em>Unattributed</em></td><td class="time">${formatTime(report.projects.unattributed_seconds)}</td>`;
+      html += `<td class="time">${report.projects.unattributed_percentage.toFixed(1)}%</td></tr>\n</table>\n`;
+      if (report.projects.top_unattributed.length > 0) {
+        html += `<p>Longest unattributed windows:</p>\n<ul>\n`;
+        report.projects.top_unattributed.forEach(entry => {
+          html += `<li><strong>${escapeHtml(entry.title)}</strong> (${formatTime(entry.seconds)}) - ${escapeHtml(entry.application)}</li>\n`;
+        });
+        html += `</ul>\n`;
+      }
+    }
+
+    if (report.focus) {
+      html += `<h2>Focus</h2>\n<ul>\n`;
+      formatFocusTotals(report).forEach(line => {
+        html += `<li>${escapeHtml(line)}</li>\n`;
+      });
+      html += `</ul>\n`;
+      if (report.focus.deep_work_blocks.length > 0) {
+        html += `<table>\n<tr><th>Deep-work block</th><th>Time</th></tr>\n`;
+        report.focus.deep_work_blocks.forEach(block => {
+          html += `<tr><td>${block.start}-${block.end}</td><td class="time">${formatTime(block.seconds)}</td></tr>\n`;
+        });
+        html += `</table>\n`;
+      }
+      if (report.focus.context_switches.length > 0) {
+        html += `<p>Switches per hour: ${escapeHtml(formatHourSwitches(report))}</p>\n`;
+      }
+    }
+
+    if (report.categories) {
+      html += `<h2>Categories</h2>\n<table>\n<tr><th>Category</th><th>Pulse</th><th>Time</th><th>Share</th></tr>\n`;
+      report.categories.forEach(overview => {
+        [overview, ...overview.children].forEach(node => {
+          const name = node === overview ? `<strong>${escapeHtml(node.name)}</strong>` : `&nbsp;&nbsp;&nbsp;&nbsp;${escapeHtml(node.name)}`;
+          html += `<tr><td>${name}</td><td class="time">${node.productivity_pulse ?? ''}</td>`;
+          html += `<td class="time">${formatTime(node.seconds)}</td><td class="time">${node.percentage.toFixed(1)}%</td></tr>\n`;
+        });
+      });
+      html += `</table>\n`;
+    }
+
+    if (report.activities.length > 0) {
+      html += `<h2>Top Activities</h2>\n<table>\n<tr><th>Activity</th><th>Category</th><th>Productivity</th><th>Time</th></tr>\n`;
+      report.activities.slice(0, 15).forEach(activity => {
+        html += `<tr><td>${escapeHtml(activity.activity)}</td><td>${escapeHtml(activity.category)}</td>`;
+        html += `<td>${activity.productivity_label}</td><td class="time">${formatTime(activity.time_spent_seconds)}</td></tr>\n`;
+      });
+      html += `</table>\n`;
+    }
+
+    if (report.hourly_documents.length > 0) {
+      html += `<h2>Hourly Breakdown with Tab Titles</h2>\n`;
+      report.hourly_documents.forEach(({ hour, documents }) => {
+        html += `<h3>${escapeHtml(hour)}</h3>\n<table>\n`;
+        documents.slice(0, 10).forEach(doc => {
+          html += `<tr><td><strong>${escapeHtml(doc.title)}</strong></td><td>${escapeHtml(doc.application)}</td>`;
+          html += `<td>${doc.productivity_label}</td><td class="time">${formatTime(doc.time_spent_seconds)}</td></tr>\n`;
+        });
+        html += `</table>\n`;
+      });
+    }
+
+    html += renderHtmlMetaFooter(meta);
+
+    return renderHtmlPage(title, html);
+  },
+
+  renderEmpty(date, meta) {
+    return renderHtmlPage(getTitle(date), `<p>No data found for ${escapeHtml(date)}</p>\n${renderHtmlMetaFooter(meta)}`);
+  },
+};
+
+export const RENDERERS: Record<ReportFormat, ReportRenderer> = {
+  markdown: markdownRenderer,
+  json: jsonRenderer,
+  csv: csvRenderer,
+  html: htmlRenderer,
+};
+
+export function isReportFormat(name: string): name is ReportFormat {
+  return Object.prototype.hasOwnProperty.call(RENDERERS, name);
+}
@@ -0,0 +1,253 @@
+import { promises as fs } from 'fs';
+import { StoreOptions, isFetchComplete } from './store';
+import { parseFrontMatter } from './front-matter';
+import { Meeting, getMeetingSeconds, readCalendarDay } from './calendar';
+import { ProjectAttribution, attributeProjects, loadProjectRules, readCommitRepositories } from './projects';
+import { FocusAnalysis, analyzeFocus, resolveFocusOptions } from './focus';
+import { GoalResult, evaluateGoals, loadGoals } from './goals';
+import { compareHours, getDayStartInstant, getNextDate, getYesterday } from './timezone';
+import { ScoreResult, computeScores, loadScorers } from './scoring';
+import { CategoryNode, buildCategoryTree } from './categories';
+import {
+  SummarySource,
+  fetchDailySummary,
+  getActivityIntervals,
+  getCategoryTimes,
+  getDetailedActivities,
+  getDetailedDocumentData,
+  getProductivityCategory,
+} from './rescuetime';
+
+// Bump when a field of DailyReport is renamed, removed or changes meaning.
+// Adding fields is backwards compatible and does not need a bump.
+export const REPORT_SCHEMA_VERSION = 1;
+
+// When and from what a report was built, so incomplete days can be refreshed
+export interface ReportMeta {
+  generated_at: string;
+  // Activity after this time had not been synced when the data was fetched
+  data_through: string;
+  // 'none' when RescueTime had no data for the day
+  source: SummarySource | 'none';
+  total_seconds: number;
+  // False when the data was fetched before the day was over and synced
+  complete: boolean;
+}
+
+export interface ReportSummary {
+  total_seconds: number;
+  total_duration_formatted: string;
+  // Total time minus very distracting time
+  productive_seconds: number;
+  // RescueTime's pulse, 0-100
+  productivity_pulse: number;
+}
+
+export interface DistributionEntry {
+  // RescueTime productivity level, from -2 (very distracting) to 2 (very productive)
+  productivity: number;
+  label: string;
+  seconds: number;
+  duration_formatted: string;
+  percentage: number;
+}
+
+export interface ReportActivity {
+  activity: string;
+  category: string;
+  productivity: number;
+  productivity_label: string;
+  time_spent_seconds: number;
+}
+
+export interface ReportDocument {
+  title: string;
+  application: string;
+  productivity: number;
+  productivity_label: string;
+  time_spent_seconds: number;
+}
+
+export interface ReportHour {
+  // "HH:mm", or "unknown" when RescueTime sent no timestamp
+  hour: string;
+  documents: ReportDocument[];
+}
+
+// Meetings imported by the calendar command, compared with tracked time
+export interface ReportMeetings {
+  // Overlapping meetings counted once; all-day events not counted
+  meeting_seconds: number;
+  // Meeting time as a share of tracked time; above 100 when meetings were away from the computer
+  percentage_of_tracked: number;
+  // Sorted by start time
+  meetings: Meeting[];
+}
+
+/**
+ * The data behind a daily report, independent of the output format.
+ * Serialized as-is by the JSON renderer, so changes here are API changes.
+ */
+export interface DailyReport {
+  date: string;
+  summary: ReportSummary;
+  distribution: DistributionEntry[];
+  // Sorted by time spent, descending
+  activities: ReportActivity[];
+  // Overview categories with their categories, sorted by time spent; null without category data
+  categories: CategoryNode[] | null;
+  // Sorted by hour; documents sorted by time spent, descending
+  hourly_documents: ReportHour[];
+  // Null when no meetings were imported for the day
+  meetings: ReportMeetings | null;
+  // Window time by project; null without project rules or commits for the day
+  projects: ProjectAttribution | null;
+  // Deep work and context switches; null without 5-minute interval data
+  focus: FocusAnalysis | null;
+  // In the order of goals.json; null without goals
+  goals: GoalResult[] | null;
+  // Custom scores shown next to the pulse, in the order of scores.json; null without scores
+  scores: ScoreResult[] | null;
+}
+
+/**
+ * Checks whether a saved report was generated from complete data.
+ * Uses the metadata of Markdown and JSON reports, and the file time otherwise
+ * (other formats, and reports written before metadata existed).
+ */
+export async function isReportFileComplete(date: string, filePath: string): Promise<boolean> {
+  const content = await fs.readFile(filePath, 'utf-8');
+
+  if (filePath.endsWith('.json')) {
+    try {
+      const { meta } = JSON.parse(content);
+      if (meta && typeof meta.complete === 'boolean') {
+        return meta.complete;
+      }
+    } catch (error) {
+      return false; // Unreadable, so regenerate it
+    }
+  } else {
+    const { fields } = parseFrontMatter(content);
+    if (fields.complete) {
+      return fields.complete === 'true';
+    }
+  }
+
+  const { mtime } = await fs.stat(filePath);
+  return isFetchComplete(date, mtime);
+}
+
+function toDistributionEntry(productivity: number, hours: number, durationFormatted: string, percentage: number): DistributionEntry {
+  return {
+    productivity,
+    label: getProductivityCategory(productivity),
+    seconds: hours * 3600,
+    duration_formatted: durationFormatted,
+    percentage,
+  };
+}
+
+/**
+ * Builds the metadata of a report whose data was fetched at the given time
+ */
+export function buildReportMeta(date: string, fetchedAt: string, source: ReportMeta['source'], totalSeconds: number): ReportMeta {
+  const complete = isFetchComplete(date, fetchedAt);
+  return {
+    generated_at: new Date().toISOString(),
+    data_through: complete ? getDayStartInstant(getNextDate(date)).toISOString() : fetchedAt,
+    source,
+    total_seconds: Math.round(totalSeconds),
+    complete,
+  };
+}
+
+/**
+ * Builds the report data for the specified date; report is null if RescueTime has none
+ */
+export async function buildDailyReport(date?: string, options: StoreOptions = {}): Promise<{ meta: ReportMeta; report: DailyReport | null }> {
+  const targetDate = date || getYesterday();
+
+  // Fetch the summary data
+  const result = await fetchDailySummary(targetDate, options);
+  if (!result) {
+    // Nothing was found as of now, which may change once RescueTime syncs
+    return { meta: buildReportMeta(targetDate, new Date().toISOString(), 'none', 0), report: null };
+  }
+
+  const { summary } = result;
+
+  // Fetch detailed activities
+  const activities = await getDetailedActivities(targetDate, options);
+
+  // Fetch detailed document data (tab titles by hour)
+  const hourlyDocuments = await getDetailedDocumentData(targetDate, options);
+
+  // Fetch activities in 5-minute intervals for the focus analysis
+  const intervals = await getActivityIntervals(targetDate, options);
+
+  // Fetch time by category and overview category
+  const categoryTimes = await getCategoryTimes(targetDate, options);
+
+  const totalSeconds = summary.total_hours * 3600;
+
+  const calendarDay = await readCalendarDay(targetDate);
+  const meetingSeconds = calendarDay ? getMeetingSeconds(calendarDay.meetings) : 0;
+
+  const hours: ReportHour[] = Object.keys(hourlyDocuments).sort(compareHours).map(hour => ({
+    hour,
+    documents: hourlyDocuments[hour].map(doc => ({
+      title: doc.title,
+      application: doc.application,
+      productivity: doc.productivity,
+      productivity_label: getProductivityCategory(doc.productivity),
+      time_spent_seconds: doc.time_spent_seconds,
+    })),
+  }));
+
+  const report: DailyReport = {
+    date: summary.date,
+    summary: {
+      total_seconds: totalSeconds,
+      total_duration_formatted: summary.total_duration_formatted,
+      // Calculate productive time (total time - very distracting time)
+      productive_seconds: totalSeconds - (summary.very_distracting_hours * 3600),
+      productivity_pulse: summary.productivity_pulse,
+    },
+    distribution: [
+      toDistributionEntry(2, summary.very_productive_hours, summary.very_productive_duration_formatted, summary.very_productive_percentage),
+      toDistributionEntry(1, summary.productive_hours, summary.productive_duration_formatted, summary.productive_percentage),
+      toDistributionEntry(0, summary.neutral_hours, summary.neutral_duration_formatted, summary.neutral_percentage),
+      toDistributionEntry(-1, summary.distracting_hours, summary.distracting_duration_formatted, summary.distracting_percentage),
+      toDistributionEntry(-2, summary.very_distracting_hours, summary.very_distracting_duration_formatted, summary.very_distracting_percentage),
+    ],
+    activities: activities.map(activity => ({
+      activity: activity.activity,
+      category: activity.category,
+      productivity: activity.productivity,
+      productivity_label: getProductivityCategory(activity.productivity),
+      time_spent_seconds: activity.time_spent_seconds,
+    })),
+    categories: null,
+    hourly_documents: hours,
+    meetings: calendarDay ? {
+      meeting_seconds: meetingSeconds,
+      percentage_of_tracked: totalSeconds > 0 ? Math.round(meetingSeconds / totalSeconds * 1000) / 10 : 0,
+      meetings: calendarDay.meetings,
+    } : null,
+    projects: attributeProjects(hours, await loadProjectRules(), await readCommitRepositories(targetDate)),
+    focus: analyzeFocus(intervals, resolveFocusOptions()),
+    goals: null,
+    scores: null,
+  };
+
+  report.categories = categoryTimes.length > 0 ? buildCategoryTree(categoryTimes, report.activities) : null;
+
+  const scorers = await loadScorers();
+  report.scores = scorers.length > 0 ? computeScores(report.activities, scorers) : null;
+
+  // Goals are checked against the finished report
+  report.goals = await evaluateGoals(report, await loadGoals());
+
+  return { meta: buildReportMeta(targetDate, result.fetched_at, result.source, totalSeconds), report };
+}
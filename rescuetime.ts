@@ -0,0 +1,509 @@
+import * as dotenv from 'dotenv';
+import { getOrFetchEntry, RawKind, StoreMissError, StoreOptions } from './store';
+import { httpGet } from './http';
+import { calculatePulse } from './scoring';
+import { getDayOfWallTime, getDayStartMinutes, getNextDate, getTimeZone, getYesterday, wallTimeToInstant } from './timezone';
+
+// Load environment variables
+dotenv.config();
+
+// API key should be set in a .env file
+const API_KEY = process.env.RESCUETIME_API_KEY;
+
+// Interfaces for API responses
+export interface DailySummary {
+  id: number;
+  date: string;
+  productivity_pulse: number;
+  very_productive_percentage: number;
+  productive_percentage: number;
+  neutral_percentage: number;
+  distracting_percentage: number;
+  very_distracting_percentage: number;
+  all_productive_percentage: number;
+  all_distracting_percentage: number;
+  total_hours: number;
+  total_duration_formatted: string;
+  very_productive_hours: number;
+  very_productive_duration_formatted: string;
+  productive_hours: number;
+  productive_duration_formatted: string;
+  neutral_hours: number;
+  neutral_duration_formatted: string;
+  distracting_hours: number;
+  distracting_duration_formatted: string;
+  very_distracting_hours: number;
+  very_distracting_duration_formatted: string;
+}
+
+export interface ActivityData {
+  rank: number;
+  time_spent_seconds: number;
+  number_of_people: number;
+  activity: string;
+  category: string;
+  productivity: number;
+}
+
+// New interface for detailed document data
+export interface DocumentData {
+  hour: string;
+  title: string;
+  application: string;
+  time_spent_seconds: number;
+  productivity: number;
+}
+
+// Time on one activity within a 5-minute interval
+export interface ActivityInterval {
+  // Local start of the interval, e.g. "2025-04-25T14:05:00"
+  time: string;
+  activity: string;
+  productivity: number;
+  time_spent_seconds: number;
+}
+
+// Time in a RescueTime category, e.g. "Editing & IDEs" in "Software Development"
+export interface CategoryTime {
+  overview: string;
+  category: string;
+  time_spent_seconds: number;
+}
+
+// Group hourly document data by hour for easy reporting
+export interface HourlyDocumentData {
+  [hour: string]: DocumentData[];
+}
+
+// Which RescueTime API a daily summary came from; 'hourly' is summed from hourly
+// activity, for days that start at DAY_START
+export type SummarySource = 'daily_summary_feed' | 'analytics' | 'hourly';
+
+export interface SummaryResult {
+  summary: DailySummary;
+  source: SummarySource;
+  // When the underlying API response was fetched
+  fetched_at: string;
+}
+
+/**
+ * Returns the RescueTime API key, failing if it is not configured
+ */
+function requireApiKey(): string {
+  if (!API_KEY) {
+    throw new Error('RESCUETIME_API_KEY not found in environment variables');
+  }
+  return API_KEY;
+}
+
+/**
+ * Builds a daily summary from analytics API rows, which have a different format
+ * Rows are [date, time spent (seconds), number of people, activity, category, productivity]
+ */
+function summarizeRows(targetDate: string, rows: any[]): DailySummary {
+  let totalSeconds = 0;
+  let veryProductiveSeconds = 0;
+  let productiveSeconds = 0;
+  let neutralSeconds = 0;
+  let distractingSeconds = 0;
+  let veryDistractingSeconds = 0;
+  
+  // Process each row of data
+  rows.forEach((row: any) => {
+    const seconds = row[1];
+    const productivity = row[5]; // Productivity level (-2 to 2)
+    
+    totalSeconds += seconds;
+    
+    switch(productivity) {
+      case 2:
+        veryProductiveSeconds += seconds;
+        break;
+      case 1:
+        productiveSeconds += seconds;
+        break;
+      case 0:
+        neutralSeconds += seconds;
+        break;
+      case -1:
+        distractingSeconds += seconds;
+        break;
+      case -2:
+        veryDistractingSeconds += seconds;
+        break;
+    }
+  });
+  
+  // Calculate percentages
+  const veryProductivePercentage = totalSeconds > 0 ? (veryProductiveSeconds / totalSeconds) * 100 : 0;
+  const productivePercentage = totalSeconds > 0 ? (productiveSeconds / totalSeconds) * 100 : 0;
+  const neutralPercentage = totalSeconds > 0 ? (neutralSeconds / totalSeconds) * 100 : 0;
+  const distractingPercentage = totalSeconds > 0 ? (distractingSeconds / totalSeconds) * 100 : 0;
+  const veryDistractingPercentage = totalSeconds > 0 ? (veryDistractingSeconds / totalSeconds) * 100 : 0;
+  
+  // Calculate productivity pulse (0-100 scale) the way RescueTime does
+  const productivityPulse = calculatePulse([
+    { productivity: 2, seconds: veryProductiveSeconds },
+    { productivity: 1, seconds: productiveSeconds },
+    { productivity: 0, seconds: neutralSeconds },
+    { productivity: -1, seconds: distractingSeconds },
+    { productivity: -2, seconds: veryDistractingSeconds },
+  ]);
+  
+  // Format durations
+  const formatDuration = (seconds: number): string => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return `${hours}h ${minutes}m`;
+  };
+  
+  // Create a DailySummary object from the analytics data
+  const syntheticSummary: DailySummary = {
+    id: new Date(targetDate).getTime(),
+    date: targetDate,
+    productivity_pulse: productivityPulse,
+    very_productive_percentage: veryProductivePercentage,
+    productive_percentage: productivePercentage,
+    neutral_percentage: neutralPercentage,
+    distracting_percentage: distractingPercentage,
+    very_distracting_percentage: veryDistractingPercentage,
+    all_productive_percentage: veryProductivePercentage + productivePercentage,
+    all_distracting_percentage: distractingPercentage + veryDistractingPercentage,
+    total_hours: totalSeconds / 3600,
+    total_duration_formatted: formatDuration(totalSeconds),
+    very_productive_hours: veryProductiveSeconds / 3600,
+    very_productive_duration_formatted: formatDuration(veryProductiveSeconds),
+    productive_hours: productiveSeconds / 3600,
+    productive_duration_formatted: formatDuration(productiveSeconds),
+    neutral_hours: neutralSeconds / 3600,
+    neutral_duration_formatted: formatDuration(neutralSeconds),
+    distracting_hours: distractingSeconds / 3600,
+    distracting_duration_formatted: formatDuration(distractingSeconds),
+    very_distracting_hours: veryDistractingSeconds / 3600,
+    very_distracting_duration_formatted: formatDuration(veryDistractingSeconds),
+  };
+
+  return syntheticSummary;
+}
+
+// The hourly activity of a calendar day
+function getActivityUrl(date: string): string {
+  return `https://www.rescuetime.com/anapi/data?key=${requireApiKey()}&perspective=interval&restrict_kind=activity&interval=hour&restrict_begin=${date}&restrict_end=${date}&format=json`;
+}
+
+/**
+ * Fetches the rows of an analytics API response
+ */
+async function fetchRows(url: string): Promise<any[]> {
+  return (await httpGet(url)).data.rows || [];
+}
+
+/**
+ * Reads the rows of analytics API responses for a day from the store, fetching them when needed.
+ * A day starting at DAY_START spans two calendar days, so their rows are combined and
+ * kept when their time (the first column) belongs to the day.
+ */
+async function getDayRows(kind: RawKind, date: string, fetchDay: (day: string) => Promise<any[]>, options: StoreOptions): Promise<{ rows: any[]; fetched_at: string }> {
+  if (getDayStartMinutes() === 0) {
+    const entry = await getOrFetchEntry<any[]>(kind, date, () => fetchDay(date), options);
+    return { rows: entry.data, fetched_at: entry.fetched_at };
+  }
+
+  const nextDate = getNextDate(date);
+  const entry = await getOrFetchEntry<any[]>(kind, date, () => fetchDay(date), options);
+  let next;
+  try {
+    next = await getOrFetchEntry<any[]>(kind, nextDate, () => fetchDay(nextDate), options);
+  } catch (error) {
+    if (!(error instanceof StoreMissError)) {
+      throw error;
+    }
+    // Offline without the next day, the data ends at midnight
+    next = { data: [], fetched_at: wallTimeToInstant(Date.parse(`${nextDate}T00:00:00Z`), getTimeZone()).toISOString() };
+  }
+
+  return {
+    rows: [...entry.data, ...next.data].filter(row => getDayOfWallTime(row[0]) === date),
+    // The day is as complete as the older of the two
+    fetched_at: entry.fetched_at < next.fetched_at ? entry.fetched_at : next.fetched_at,
+  };
+}
+
+/**
+ * Fetches the daily summary data from RescueTime API for a specific date
+ */
+export async function getDailySummary(date?: string, options: StoreOptions = {}): Promise<DailySummary | null> {
+  const result = await fetchDailySummary(date, options);
+  return result ? result.summary : null;
+}
+
+/**
+ * Fetches the daily summary along with the API it came from and when it was fetched
+ * This implementation handles both recent and historical data
+ * Raw responses are read from the local store when a fresh copy exists
+ */
+export async function fetchDailySummary(date?: string, options: StoreOptions = {}): Promise<SummaryResult | null> {
+  try {
+    const targetDate = date || getYesterday();
+    console.log(`Fetching data for ${targetDate}...`);
+
+    // Daily totals cannot be split at DAY_START, so sum up the hourly activity instead
+    if (getDayStartMinutes() > 0) {
+      const { rows, fetched_at } = await getDayRows('activity', targetDate, day => fetchRows(getActivityUrl(day)), options);
+      if (rows.length === 0) {
+        console.log(`No data found for ${targetDate}`);
+        return null;
+      }
+      return { summary: summarizeRows(targetDate, rows), source: 'hourly', fetched_at };
+    }
+    
+    // First attempt: Try the daily summary feed with restrict_date
+    const feedEntry = await getOrFetchEntry<DailySummary[]>('daily_summary_feed', targetDate, async () => {
+      const url = `https://www.rescuetime.com/anapi/daily_summary_feed?key=${requireApiKey()}&restrict_date=${targetDate}`;
+      const response = await httpGet(url);
+
+      return response.data as DailySummary[];
+    }, options);
+    
+    // Check if we got data for our target date
+    const targetSummary = feedEntry.data.find(summary => summary.date === targetDate);
+    
+    // If we found data with the first attempt, return it
+    if (targetSummary) {
+      return { summary: targetSummary, source: 'daily_summary_feed', fetched_at: feedEntry.fetched_at };
+    }
+    
+    // Second attempt: Try the analytics API for historical data
+    // This API can get data from any date in the past
+    console.log(`No data found with daily summary feed, trying analytics API for ${targetDate}...`);
+    
+    const analyticsEntry = await getOrFetchEntry<any[]>('analytics_day', targetDate, async () => {
+      const url = `https://www.rescuetime.com/anapi/data?key=${requireApiKey()}&format=json&restrict_begin=${targetDate}&restrict_end=${targetDate}&perspective=interval&resolution_time=day`;
+      const response = await httpGet(url);
+
+      return response.data.rows || [];
+    }, options);
+    
+    const rows = analyticsEntry.data;
+
+    // If there's no data, the rows will be empty
+    if (rows.length === 0) {
+      console.log(`No data found for ${targetDate} using either API method`);
+      return null;
+    }
+    
+    // We need to convert the analytics API data to match the DailySummary interface
+    console.log(`Converting analytics data to summary format for ${targetDate}...`);
+
+    return { summary: summarizeRows(targetDate, rows), source: 'analytics', fetched_at: analyticsEntry.fetched_at };
+  } catch (error) {
+    // Offline, a day that was never stored simply has no data
+    if (error instanceof StoreMissError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetches detailed activity data from RescueTime API
+ */
+export async function getDetailedActivities(date: string, options: StoreOptions = {}): Promise<ActivityData[]> {
+  try {
+    const { rows } = await getDayRows('activity', date, day => fetchRows(getActivityUrl(day)), options);
+
+    // Process the response
+    if (rows.length === 0) {
+      return [];
+    }
+
+    // Map API response to ActivityData interface
+    const activities = rows.map((row: any) => ({
+      rank: row[0],
+      time_spent_seconds: row[1],
+      number_of_people: row[2],
+      activity: row[3],
+      category: row[4],
+      productivity: row[5]
+    }));
+
+    // Group activities by type and sum time spent
+    const groupedActivities: { [key: string]: ActivityData } = {};
+
+    activities.forEach((activity: ActivityData) => {
+      if (!groupedActivities[activity.activity]) {
+        groupedActivities[activity.activity] = { ...activity };
+      } else {
+        groupedActivities[activity.activity].time_spent_seconds += activity.time_spent_seconds;
+      }
+    });
+
+    // Convert back to array and sort by time spent
+    return Object.values(groupedActivities).sort(
+      (a, b) => b.time_spent_seconds - a.time_spent_seconds
+    );
+  } catch (error) {
+    if (error instanceof StoreMissError) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetches activities in 5-minute intervals, the finest resolution RescueTime offers
+ */
+export async function getActivityIntervals(date: string, options: StoreOptions = {}): Promise<ActivityInterval[]> {
+  try {
+    const { rows } = await getDayRows('activity_interval', date, day =>
+      fetchRows(`https://www.rescuetime.com/anapi/data?key=${requireApiKey()}&perspective=interval&restrict_kind=activity&interval=minute&restrict_begin=${day}&restrict_end=${day}&format=json`), options);
+
+    // Rows are [date, time spent (seconds), number of people, activity, category, productivity]
+    return rows.map((row: any) => ({
+      time: row[0],
+      activity: row[3],
+      productivity: row[5],
+      time_spent_seconds: row[1],
+    }));
+  } catch (error) {
+    // Days stored before intervals were collected have none offline
+    if (error instanceof StoreMissError) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetches detailed document data (tab titles) from RescueTime API
+ * This gets the exact tab titles used during each hour of the day
+ */
+export async function getDetailedDocumentData(date: string, options: StoreOptions = {}): Promise<HourlyDocumentData> {
+  try {
+    // We use the document_filter to specifically get document/window titles
+    const { rows } = await getDayRows('document', date, day => {
+      console.log(`Fetching detailed document data for ${day}...`);
+      return fetchRows(`https://www.rescuetime.com/anapi/data?key=${requireApiKey()}&perspective=interval&restrict_kind=document&interval=hour&restrict_begin=${day}&restrict_end=${day}&format=json`);
+    }, options);
+
+    // Process the response
+    if (rows.length === 0) {
+      return {};
+    }
+
+    // Group data by hour
+    const hourlyData: HourlyDocumentData = {};
+    
+    rows.forEach((row: any) => {
+      // Extract data from the API response
+      // The row format depends on RescueTime's API structure
+      // This is typically [rank, time_spent_seconds, people, document_title, category, productivity]
+      const docData: DocumentData = {
+        hour: row[0], // Might need formatting depending on API response
+        time_spent_seconds: row[1],
+        title: row[3],
+        application: row[4] || 'Unknown',
+        productivity: row[5],
+      };
+      
+      // Extract hour from date-time string (e.g., "2025-04-25T14:00:00" -> "14:00")
+      const hourMatch = docData.hour.match(/T(\d{2}:\d{2}):/);
+      const hourKey = hourMatch ? hourMatch[1] : 'unknown';
+      
+      if (!hourlyData[hourKey]) {
+        hourlyData[hourKey] = [];
+      }
+      
+      hourlyData[hourKey].push(docData);
+    });
+    
+    // Sort documents in each hour by time spent
+    Object.keys(hourlyData).forEach(hour => {
+      hourlyData[hour].sort((a, b) => b.time_spent_seconds - a.time_spent_seconds);
+    });
+    
+    return hourlyData;
+  } catch (error) {
+    if (error instanceof StoreMissError) {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetches hourly time by category, with the overview category (e.g. "Software Development")
+ * each category (e.g. "Editing & IDEs") belongs to. RescueTime only tells which categories
+ * belong to an overview category when restricted to it, so this takes one request for the
+ * overview and one per overview category.
+ * Stored rows are [date, time spent (seconds), number of people, category, overview category]
+ */
+async function fetchCategoryRows(date: string): Promise<any[]> {
+  console.log(`Fetching category data for ${date}...`);
+  const url = (kind: string) =>
+    `https://www.rescuetime.com/anapi/data?key=${requireApiKey()}&perspective=interval&restrict_kind=${kind}&interval=hour&restrict_begin=${date}&restrict_end=${date}&format=json`;
+
+  const overviews = Array.from(new Set((await fetchRows(url('overview'))).map(row => row[3] as string)));
+  const rows: any[] = [];
+  for (const overview of overviews) {
+    const categoryRows = await fetchRows(`${url('category')}&restrict_thing=${encodeURIComponent(overview)}`);
+    categoryRows.forEach(row => rows.push([row[0], row[1], row[2], row[3], overview]));
+  }
+  return rows;
+}
+
+/**
+ * Fetches the time spent per category of the day, sorted by time spent
+ */
+export async function getCategoryTimes(date: string, options: StoreOptions = {}): Promise<CategoryTime[]> {
+  try {
+    const { rows } = await getDayRows('category', date, fetchCategoryRows, options);
+
+    const grouped = new Map<string, CategoryTime>();
+    rows.forEach((row: any) => {
+      const key = `${row[4]}\u0000${row[3]}`;
+      const time = grouped.get(key);
+      if (time) {
+        time.time_spent_seconds += row[1];
+      } else {
+        grouped.set(key, { overview: row[4], category: row[3], time_spent_seconds: row[1] });
+      }
+    });
+
+    return Array.from(grouped.values()).sort((a, b) => b.time_spent_seconds - a.time_spent_seconds);
+  } catch (error) {
+    // Days stored before categories were collected have none offline
+    if (error instanceof StoreMissError) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Formats time in seconds to hours and minutes
+ */
+export function formatTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (hours === 0) {
+    return `${minutes}m`;
+  }
+
+  return `${hours}h ${minutes}m`;
+}
+
+/**
+ * Categorizes productivity level
+ */
+export function getProductivityCategory(level: number): string {
+  switch (level) {
+    case 2: return 'very productive';
+    case 1: return 'productive';
+    case 0: return 'neutral';
+    case -1: return 'distracting';
+    case -2: return 'very distracting';
+    default: return 'unknown';
+  }
+}
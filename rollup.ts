@@ -0,0 +1,338 @@
+import {
+  format,
+  parseISO,
+  startOfISOWeek,
+  endOfISOWeek,
+  startOfMonth,
+  endOfMonth,
+  subWeeks,
+  subMonths,
+  eachDayOfInterval,
+  min,
+} from 'date-fns';
+import { StoreOptions } from './store';
+import { getToday } from './timezone';
+import { CategoryNode, buildCategoryTree, formatCategoryNode } from './categories';
+import {
+  ActivityData,
+  CategoryTime,
+  DailySummary,
+  getCategoryTimes,
+  getDailySummary,
+  getDetailedActivities,
+  formatTime,
+  getProductivityCategory,
+} from './rescuetime';
+
+export type RollupPeriod = 'week' | 'month';
+
+// Summed DailySummary fields for a period
+export interface PeriodTotals {
+  days_tracked: number;
+  total_seconds: number;
+  very_productive_seconds: number;
+  productive_seconds: number;
+  neutral_seconds: number;
+  distracting_seconds: number;
+  very_distracting_seconds: number;
+  // Time-weighted average of the daily pulses
+  productivity_pulse: number;
+}
+
+export interface RollupDay {
+  date: string;
+  summary: DailySummary | null;
+}
+
+export interface CategoryTotal {
+  category: string;
+  time_spent_seconds: number;
+}
+
+export interface Rollup {
+  period: RollupPeriod;
+  label: string;
+  start: string;
+  end: string;
+  days: RollupDay[];
+  totals: PeriodTotals;
+  previous: PeriodTotals;
+  // Days of the previous period compared when the period is not over yet; null for whole periods
+  compared_days: number | null;
+  activities: ActivityData[];
+  categories: CategoryTotal[];
+  // Overview categories with their categories; empty without category data
+  category_tree: CategoryNode[];
+}
+
+interface PeriodRange {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+/**
+ * Returns the ISO week or calendar month containing the given date
+ */
+export function getPeriodRange(period: RollupPeriod, date: Date): PeriodRange {
+  if (period === 'week') {
+    return {
+      start: startOfISOWeek(date),
+      end: endOfISOWeek(date),
+      label: format(date, "RRRR-'W'II"),
+    };
+  }
+
+  return {
+    start: startOfMonth(date),
+    end: endOfMonth(date),
+    label: format(date, 'yyyy-MM'),
+  };
+}
+
+/**
+ * Returns the period immediately before the one containing the given date
+ */
+function getPreviousPeriodRange(period: RollupPeriod, date: Date): PeriodRange {
+  return getPeriodRange(period, period === 'week' ? subWeeks(date, 1) : subMonths(date, 1));
+}
+
+/**
+ * Lists the dates of a period, stopping at today for the current period
+ */
+function getPeriodDates(range: PeriodRange): string[] {
+  const end = min([range.end, parseISO(getToday())]);
+  if (end < range.start) {
+    return [];
+  }
+  return eachDayOfInterval({ start: range.start, end }).map(day => format(day, 'yyyy-MM-dd'));
+}
+
+/**
+ * Sums the daily summaries of a period
+ */
+export function sumDailySummaries(summaries: (DailySummary | null)[]): PeriodTotals {
+  const totals: PeriodTotals = {
+    days_tracked: 0,
+    total_seconds: 0,
+    very_productive_seconds: 0,
+    productive_seconds: 0,
+    neutral_seconds: 0,
+    distracting_seconds: 0,
+    very_distracting_seconds: 0,
+    productivity_pulse: 0,
+  };
+
+  let weightedPulse = 0;
+
+  summaries.forEach(summary => {
+    if (!summary || summary.total_hours <= 0) {
+      return;
+    }
+
+    totals.days_tracked++;
+    totals.total_seconds += summary.total_hours * 3600;
+    totals.very_productive_seconds += summary.very_productive_hours * 3600;
+    totals.productive_seconds += summary.productive_hours * 3600;
+    totals.neutral_seconds += summary.neutral_hours * 3600;
+    totals.distracting_seconds += summary.distracting_hours * 3600;
+    totals.very_distracting_seconds += summary.very_distracting_hours * 3600;
+    weightedPulse += summary.productivity_pulse * summary.total_hours * 3600;
+  });
+
+  if (totals.total_seconds > 0) {
+    totals.productivity_pulse = Math.round(weightedPulse / totals.total_seconds);
+  }
+
+  return totals;
+}
+
+/**
+ * Merges the activities of several days, summing the time of each activity
+ */
+function mergeActivities(dailyActivities: ActivityData[][]): ActivityData[] {
+  const merged: { [key: string]: ActivityData } = {};
+
+  dailyActivities.flat().forEach(activity => {
+    if (!merged[activity.activity]) {
+      merged[activity.activity] = { ...activity };
+    } else {
+      merged[activity.activity].time_spent_seconds += activity.time_spent_seconds;
+    }
+  });
+
+  return Object.values(merged).sort((a, b) => b.time_spent_seconds - a.time_spent_seconds);
+}
+
+/**
+ * Sums activity time per RescueTime category
+ */
+function sumCategories(activities: ActivityData[]): CategoryTotal[] {
+  const categories: { [category: string]: number } = {};
+
+  activities.forEach(activity => {
+    categories[activity.category] = (categories[activity.category] || 0) + activity.time_spent_seconds;
+  });
+
+  return Object.entries(categories)
+    .map(([category, time_spent_seconds]) => ({ category, time_spent_seconds }))
+    .sort((a, b) => b.time_spent_seconds - a.time_spent_seconds);
+}
+
+/**
+ * Collects the daily data of the period containing the given date
+ */
+export async function buildRollup(period: RollupPeriod, date: string, options: StoreOptions = {}): Promise<Rollup> {
+  const anchor = parseISO(date);
+  const range = getPeriodRange(period, anchor);
+  const previousRange = getPreviousPeriodRange(period, anchor);
+
+  const days: RollupDay[] = [];
+  const dailyActivities: ActivityData[][] = [];
+  const categoryTimes: CategoryTime[] = [];
+
+  for (const day of getPeriodDates(range)) {
+    const summary = await getDailySummary(day, options);
+    days.push({ date: day, summary });
+
+    if (summary) {
+      dailyActivities.push(await getDetailedActivities(day, options));
+      categoryTimes.push(...await getCategoryTimes(day, options));
+    }
+  }
+
+  // A period that is not over is compared with as many days of the previous one
+  const elapsedDays = days.length;
+  const partial = elapsedDays < eachDayOfInterval({ start: range.start, end: range.end }).length;
+
+  const previousSummaries: (DailySummary | null)[] = [];
+  for (const day of getPeriodDates(previousRange).slice(0, partial ? elapsedDays : undefined)) {
+    previousSummaries.push(await getDailySummary(day, options));
+  }
+
+  const activities = mergeActivities(dailyActivities);
+
+  return {
+    period,
+    label: range.label,
+    start: format(range.start, 'yyyy-MM-dd'),
+    end: format(range.end, 'yyyy-MM-dd'),
+    days,
+    totals: sumDailySummaries(days.map(day => day.summary)),
+    previous: sumDailySummaries(previousSummaries),
+    compared_days: partial ? elapsedDays : null,
+    activities,
+    categories: sumCategories(activities),
+    category_tree: buildCategoryTree(categoryTimes, activities),
+  };
+}
+
+/**
+ * Formats the change between two values, e.g. "+1.5h (+12.0%)"
+ */
+function formatDelta(current: number, previous: number, unit: string, digits: number): string {
+  const delta = current - previous;
+  const sign = delta >= 0 ? '+' : '-';
+  let text = `${sign}${Math.abs(delta).toFixed(digits)}${unit}`;
+
+  if (previous !== 0) {
+    const percentage = (delta / previous) * 100;
+    text += ` (${percentage >= 0 ? '+' : '-'}${Math.abs(percentage).toFixed(1)}%)`;
+  }
+
+  return text;
+}
+
+function getProductiveSeconds(totals: PeriodTotals): number {
+  return totals.very_productive_seconds + totals.productive_seconds;
+}
+
+function formatPercentage(seconds: number, totalSeconds: number): string {
+  return totalSeconds > 0 ? ((seconds / totalSeconds) * 100).toFixed(1) : '0.0';
+}
+
+/**
+ * Builds the Markdown rollup report
+ */
+export function formatRollupReport(rollup: Rollup): string {
+  const { totals, previous } = rollup;
+  const title = rollup.period === 'week' ? 'Weekly' : 'Monthly';
+  const previousLabel = rollup.period === 'week' ? 'previous week' : 'previous month';
+  const startFormatted = format(parseISO(rollup.start), 'MMMM do, yyyy');
+  const endFormatted = format(parseISO(rollup.end), 'MMMM do, yyyy');
+
+  let report = `# RescueTime ${title} Report for ${rollup.label}\n\n`;
+  report += `${startFormatted} – ${endFormatted}\n\n`;
+
+  report += `## Summary\n`;
+  report += `- Days tracked: ${totals.days_tracked}\n`;
+  report += `- Total time tracked: ${formatTime(totals.total_seconds)} (${(totals.total_seconds / 3600).toFixed(2)} hours)\n`;
+  report += `- Productive time: ${formatTime(getProductiveSeconds(totals))} (${(getProductiveSeconds(totals) / 3600).toFixed(1)} h)\n`;
+  report += `- Productivity pulse: ${totals.productivity_pulse}/100\n\n`;
+
+  report += rollup.compared_days === null
+    ? `## Compared to the ${previousLabel}\n`
+    : `## Compared to the first ${rollup.compared_days} ${rollup.compared_days === 1 ? 'day' : 'days'} of the ${previousLabel}\n`;
+  report += `- Total hours: ${formatDelta(totals.total_seconds / 3600, previous.total_seconds / 3600, 'h', 1)}\n`;
+  report += `- Productive hours: ${formatDelta(getProductiveSeconds(totals) / 3600, getProductiveSeconds(previous) / 3600, 'h', 1)}\n`;
+  report += `- Productivity pulse: ${formatDelta(totals.productivity_pulse, previous.productivity_pulse, '', 0)}\n\n`;
+
+  report += `## Time Distribution\n`;
+  report += `- Very productive: ${formatTime(totals.very_productive_seconds)} (${formatPercentage(totals.very_productive_seconds, totals.total_seconds)}%)\n`;
+  report += `- Productive: ${formatTime(totals.productive_seconds)} (${formatPercentage(totals.productive_seconds, totals.total_seconds)}%)\n`;
+  report += `- Neutral: ${formatTime(totals.neutral_seconds)} (${formatPercentage(totals.neutral_seconds, totals.total_seconds)}%)\n`;
+  report += `- Distracting: ${formatTime(totals.distracting_seconds)} (${formatPercentage(totals.distracting_seconds, totals.total_seconds)}%)\n`;
+  report += `- Very distracting: ${formatTime(totals.very_distracting_seconds)} (${formatPercentage(totals.very_distracting_seconds, totals.total_seconds)}%)\n\n`;
+
+  report += `## Daily Totals\n\n`;
+  report += `| Date | Total | Productive | Distracting | Pulse |\n`;
+  report += `| --- | --- | --- | --- | --- |\n`;
+  rollup.days.forEach(day => {
+    const dateFormatted = format(parseISO(day.date), 'EEE yyyy-MM-dd');
+    if (!day.summary) {
+      report += `| ${dateFormatted} | - | - | - | - |\n`;
+      return;
+    }
+    const productiveSeconds = (day.summary.very_productive_hours + day.summary.productive_hours) * 3600;
+    const distractingSeconds = (day.summary.distracting_hours + day.summary.very_distracting_hours) * 3600;
+    report += `| ${dateFormatted} | ${formatTime(day.summary.total_hours * 3600)} | ${formatTime(productiveSeconds)} | ${formatTime(distractingSeconds)} | ${day.summary.productivity_pulse} |\n`;
+  });
+  report += '\n';
+
+  // Days fetched before categories were collected only have the activity categories
+  if (rollup.category_tree.length > 0) {
+    report += `## Categories\n`;
+    rollup.category_tree.forEach(overview => {
+      report += `- ${formatCategoryNode(overview)}\n`;
+      overview.children.forEach(category => {
+        report += `  - ${formatCategoryNode(category)}\n`;
+      });
+    });
+    report += '\n';
+  } else if (rollup.categories.length > 0) {
+    report += `## Top Categories\n`;
+    rollup.categories.slice(0, 10).forEach(category => {
+      report += `- ${category.category} (${formatTime(category.time_spent_seconds)})\n`;
+    });
+    report += '\n';
+  }
+
+  if (rollup.activities.length > 0) {
+    report += `## Top Activities\n`;
+    rollup.activities.slice(0, 15).forEach(activity => {
+      const timeFormatted = formatTime(activity.time_spent_seconds);
+      const category = getProductivityCategory(activity.productivity);
+      report += `- ${activity.activity} (${timeFormatted}) - ${activity.category} (${category})\n`;
+    });
+    report += '\n';
+  }
+
+  return report;
+}
+
+/**
+ * Returns the file name of a rollup report, e.g. rescuetime-week-2025-W17.md
+ */
+export function getRollupFileName(period: RollupPeriod, label: string): string {
+  return `rescuetime-${period}-${label}.md`;
+}
@@ -0,0 +1,176 @@
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ReportActivity } from './report';
+
+dotenv.config();
+
+// RescueTime productivity levels, from very productive (2) to very distracting (-2)
+export type ProductivityLevel = 2 | 1 | 0 | -1 | -2;
+
+// Time spent at a productivity level
+export interface LevelTime {
+  productivity: number;
+  seconds: number;
+}
+
+/**
+ * Scores a day from its activities, 0-100. Built from scores.json, or implemented
+ * in code for anything the weights cannot express.
+ */
+export interface Scorer {
+  name: string;
+  // Null when none of the activities count towards the score
+  score(activities: ReportActivity[]): number | null;
+}
+
+export interface ScoreResult {
+  name: string;
+  value: number | null;
+}
+
+// The weights of RescueTime's productivity pulse
+export const PULSE_WEIGHTS: Record<ProductivityLevel, number> = { 2: 100, 1: 75, 0: 50, [-1]: 25, [-2]: 0 };
+
+// How levels are named in scores.json, like the goal metrics
+const LEVEL_NAMES: Record<string, ProductivityLevel> = {
+  very_productive: 2,
+  productive: 1,
+  neutral: 0,
+  distracting: -1,
+  very_distracting: -2,
+};
+
+// The shape of scores.json
+interface ScoresFile {
+  scores?: {
+    name?: string;
+    weights?: Record<string, number>;
+    // By RescueTime category; null leaves the category out of the score
+    categories?: Record<string, number | null>;
+  }[];
+}
+
+/**
+ * The time-weighted average of the weights, rounded to 0-100; null without time
+ */
+function weightedAverage(entries: { weight: number; seconds: number }[]): number | null {
+  const seconds = entries.reduce((total, entry) => total + entry.seconds, 0);
+  if (seconds <= 0) {
+    return null;
+  }
+  const weighted = entries.reduce((total, entry) => total + entry.weight * entry.seconds, 0);
+  return Math.round(weighted / seconds);
+}
+
+/**
+ * RescueTime's productivity pulse: the time-weighted average of 100 for very productive,
+ * 75 productive, 50 neutral, 25 distracting and 0 very distracting time
+ */
+export function calculatePulse(levels: LevelTime[]): number {
+  const counted = levels.filter(level => level.productivity in PULSE_WEIGHTS);
+  return weightedAverage(counted.map(level => ({ weight: PULSE_WEIGHTS[level.productivity as ProductivityLevel], seconds: level.seconds }))) ?? 0;
+}
+
+/**
+ * A score with its own weights per level, and per category overriding them
+ */
+export function createWeightedScorer(
+  name: string,
+  weights: Partial<Record<ProductivityLevel, number>>,
+  categories: Record<string, number | null> = {}
+): Scorer {
+  // Categories are matched case-insensitively
+  const categoryWeights = new Map(Object.keys(categories).map(category => [category.toLowerCase(), categories[category]]));
+
+  return {
+    name,
+    score(activities) {
+      const entries = activities.flatMap(activity => {
+        const category = activity.category.toLowerCase();
+        const weight = categoryWeights.has(category)
+          ? categoryWeights.get(category)
+          : weights[activity.productivity as ProductivityLevel] ?? PULSE_WEIGHTS[activity.productivity as ProductivityLevel];
+        return weight === null || weight === undefined ? [] : [{ weight, seconds: activity.time_spent_seconds }];
+      });
+      return weightedAverage(entries);
+    },
+  };
+}
+
+export function getScoresConfigPath(): string {
+  return path.resolve(process.env.SCORES_CONFIG || path.join(process.cwd(), 'scores.json'));
+}
+
+function parseWeight(value: unknown, where: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) {
+    throw new Error(`${where} must be a number from 0 to 100, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Reads the custom scores from scores.json (or SCORES_CONFIG); none without the file
+ */
+export async function loadScorers(): Promise<Scorer[]> {
+  const configPath = getScoresConfigPath();
+
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch (error) {
+    if (process.env.SCORES_CONFIG) {
+      throw new Error(`Cannot read SCORES_CONFIG file ${configPath}`);
+    }
+    return [];
+  }
+
+  let file: ScoresFile;
+  try {
+    file = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${configPath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const names = new Set<string>();
+  return (file.scores || []).map((score, index) => {
+    const where = `${configPath}: score ${index + 1}`;
+    if (!score.name) {
+      throw new Error(`${where}: name is required`);
+    }
+    if (names.has(score.name)) {
+      throw new Error(`${configPath}: more than one score is named "${score.name}"`);
+    }
+    names.add(score.name);
+
+    const weights: Partial<Record<ProductivityLevel, number>> = {};
+    Object.keys(score.weights || {}).forEach(level => {
+      if (!Object.prototype.hasOwnProperty.call(LEVEL_NAMES, level)) {
+        throw new Error(`${where}: weights must be keyed by ${Object.keys(LEVEL_NAMES).join(', ')}, got "${level}"`);
+      }
+      weights[LEVEL_NAMES[level]] = parseWeight(score.weights![level], `${where}: weights.${level}`);
+    });
+
+    const categories: Record<string, number | null> = {};
+    Object.keys(score.categories || {}).forEach(category => {
+      const weight = score.categories![category];
+      categories[category] = weight === null ? null : parseWeight(weight, `${where}: categories["${category}"]`);
+    });
+
+    return createWeightedScorer(score.name, weights, categories);
+  });
+}
+
+/**
+ * Formats a score for reports, e.g. "72/100", or "n/a" when nothing counted
+ */
+export function formatScore(value: number | null): string {
+  return value === null ? 'n/a' : `${value}/100`;
+}
+
+/**
+ * Scores the activities of a day with every scorer, in their order
+ */
+export function computeScores(activities: ReportActivity[], scorers: Scorer[]): ScoreResult[] {
+  return scorers.map(scorer => ({ name: scorer.name, value: scorer.score(activities) }));
+}
@@ -0,0 +1,245 @@
+import { randomBytes } from 'crypto';
+import { format } from 'date-fns';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+const SMTP_TIMEOUT_MS = 30000;
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// A rejected command, or a connection that failed; transient errors are worth retrying
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  get transient(): boolean {
+    return this.code === undefined || (this.code >= 400 && this.code < 500);
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One connection to an SMTP server, reading replies line by line
+ */
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: (() => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new SmtpError('SMTP server timed out')));
+    socket.on('data', chunk => {
+      this.buffer += chunk.toString('utf-8');
+      const parts = this.buffer.split('\r\n');
+      this.buffer = parts.pop() || '';
+      this.lines.push(...parts);
+      this.wake();
+    });
+    socket.on('error', error => {
+      this.failure = error instanceof SmtpError ? error : new SmtpError(`SMTP connection failed: ${error.message}`);
+      this.wake();
+    });
+    socket.on('close', () => {
+      this.failure = this.failure || new SmtpError('SMTP server closed the connection');
+      this.wake();
+    });
+  }
+
+  private wake() {
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.();
+  }
+
+  /**
+   * Reads one reply; multi-line replies use "250-" on every line but the last
+   */
+  async read(): Promise<SmtpReply> {
+    const lines: string[] = [];
+    for (;;) {
+      while (this.lines.length === 0) {
+        if (this.failure) {
+          throw this.failure;
+        }
+        await new Promise<void>(resolve => {
+          this.waiting = resolve;
+        });
+      }
+      const line = this.lines.shift()!;
+      lines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        return { code: parseInt(line.slice(0, 3), 10), lines };
+      }
+    }
+  }
+
+  /**
+   * Sends a command and fails unless the reply has the expected code
+   */
+  async command(line: string, expected: number | number[], shown = line): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, shown);
+  }
+
+  async expect(expected: number | number[], shown: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!([] as number[]).concat(expected).includes(reply.code)) {
+      throw new SmtpError(`SMTP server rejected ${shown}: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  /**
+   * Switches the connection to TLS after STARTTLS
+   */
+  async upgrade(host: string) {
+    this.socket.removeAllListeners('data').removeAllListeners('error').removeAllListeners('close');
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', error => reject(new SmtpError(`SMTP TLS handshake failed: ${error.message}`)));
+    });
+    this.attach(secureSocket);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    socket.once(config.secure ? 'secureConnect' : 'connect', () => resolve(socket));
+    socket.once('error', error => reject(new SmtpError(`Cannot connect to SMTP server ${config.host}:${config.port}: ${error.message}`)));
+  });
+}
+
+/**
+ * Extracts the address from "Name <address>"
+ */
+function getAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+function encodeHeader(text: string): string {
+  return /^[\x20-\x7e]*$/.test(text) ? text : `=?UTF-8?B?${Buffer.from(text, 'utf-8').toString('base64')}?=`;
+}
+
+function encodeBody(text: string): string {
+  return Buffer.from(text, 'utf-8').toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * Builds the MIME message: plain text, plus an HTML alternative when given
+ */
+function buildMessage(from: string, message: MailMessage): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${format(new Date(), 'EEE, dd MMM yyyy HH:mm:ss xx')}`,
+    `Message-ID: <${randomBytes(12).toString('hex')}@${os.hostname()}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  const textPart = ['Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: base64', '', encodeBody(message.text)];
+  if (!message.html) {
+    return [...headers, ...textPart].join('\r\n');
+  }
+
+  const boundary = `----=_${randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * Sends one message. Credentials are only sent over TLS.
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const session = new SmtpSession(await connect(config));
+  const hostname = os.hostname();
+
+  try {
+    await session.expect(220, 'the connection');
+    let { lines: extensions } = await session.command(`EHLO ${hostname}`, 250);
+    let secure = config.secure;
+
+    if (!secure && extensions.some(line => /^STARTTLS\b/i.test(line))) {
+      await session.command('STARTTLS', 220);
+      await session.upgrade(config.host);
+      secure = true;
+      // Extensions may change once the connection is encrypted
+      extensions = (await session.command(`EHLO ${hostname}`, 250)).lines;
+    }
+
+    if (config.user) {
+      if (!secure) {
+        throw new SmtpError(`SMTP server ${config.host} does not offer STARTTLS; refusing to send the password unencrypted`, 530);
+      }
+      const auth = extensions.find(line => /^AUTH\b/i.test(line)) || '';
+      if (/\bPLAIN\b/i.test(auth)) {
+        const token = Buffer.from(`\0${config.user}\0${config.password || ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${token}`, 235, 'AUTH PLAIN');
+      } else {
+        await session.command('AUTH LOGIN', 334);
+        await session.command(Buffer.from(config.user).toString('base64'), 334, 'the user name');
+        await session.command(Buffer.from(config.password || '').toString('base64'), 235, 'the password');
+      }
+    }
+
+    await session.command(`MAIL FROM:<${getAddress(config.from)}>`, 250);
+    for (const recipient of message.to) {
+      // 251: not local, will forward
+      await session.command(`RCPT TO:<${getAddress(recipient)}>`, [250, 251]);
+    }
+    await session.command('DATA', 354);
+    // Base64 bodies never start a line with a dot, so no dot-stuffing is needed
+    await session.command(`${buildMessage(config.from, message)}\r\n.`, 250, 'the message');
+    await session.command('QUIT', 221).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,152 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { addHours } from 'date-fns';
+import { getDayStartInstant, getNextDate } from './timezone';
+
+// Bump this when the shape of stored entries changes; older entries are refetched
+export const STORE_VERSION = 1;
+
+// RescueTime keeps syncing for a while after the day ends, so data fetched before
+// this many hours into the next day is considered incomplete
+const SYNC_GRACE_HOURS = 3;
+
+// The raw API responses we keep, one file per date and kind
+export type RawKind = 'daily_summary_feed' | 'analytics_day' | 'activity' | 'activity_interval' | 'document' | 'category';
+
+export interface StoredResponse<T> {
+  version: number;
+  kind: RawKind;
+  date: string;
+  fetched_at: string;
+  data: T;
+}
+
+// Raised in offline mode when a response was never stored
+export class StoreMissError extends Error {
+  constructor(public readonly kind: RawKind, public readonly date: string) {
+    super(`No stored ${kind} data for ${date} (offline mode)`);
+    this.name = 'StoreMissError';
+  }
+}
+
+export interface StoreOptions {
+  // Never call the API, only use what is already stored
+  offline?: boolean;
+  // Always refetch, even if a fresh entry exists
+  refresh?: boolean;
+}
+
+/**
+ * Returns the root directory of the local data store
+ */
+export function getStoreDirectory(): string {
+  return path.join(process.cwd(), 'data', 'rescuetime');
+}
+
+function getEntryPath(kind: RawKind, date: string): string {
+  return path.join(getStoreDirectory(), date, `${kind}.json`);
+}
+
+/**
+ * Reads a stored raw response, or null if missing or written by another store version
+ */
+export async function readRaw<T>(kind: RawKind, date: string): Promise<StoredResponse<T> | null> {
+  try {
+    const content = await fs.readFile(getEntryPath(kind, date), 'utf-8');
+    const entry = JSON.parse(content) as StoredResponse<T>;
+    if (entry.version !== STORE_VERSION) {
+      return null;
+    }
+    return entry;
+  } catch (error) {
+    return null; // Entry does not exist or is unreadable
+  }
+}
+
+/**
+ * Saves a raw API response for the given date and kind
+ */
+export async function writeRaw<T>(kind: RawKind, date: string, data: T): Promise<StoredResponse<T>> {
+  const entry: StoredResponse<T> = {
+    version: STORE_VERSION,
+    kind,
+    date,
+    fetched_at: new Date().toISOString(),
+    data,
+  };
+
+  const filePath = getEntryPath(kind, date);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(entry, null, 2));
+  return entry;
+}
+
+/**
+ * Checks whether data for a date fetched at the given time can be complete.
+ * The day ends at DAY_START the next day, in TIMEZONE.
+ */
+export function isFetchComplete(date: string, fetchedAt: Date | string): boolean {
+  const completeAfter = addHours(getDayStartInstant(getNextDate(date)), SYNC_GRACE_HOURS);
+  return new Date(fetchedAt).getTime() >= completeAfter.getTime();
+}
+
+/**
+ * Checks whether an entry was fetched before the day's data could be complete
+ */
+export function isStale(entry: StoredResponse<unknown>): boolean {
+  return !isFetchComplete(entry.date, entry.fetched_at);
+}
+
+/**
+ * Like getOrFetch, but returns the whole entry including when it was fetched
+ */
+export async function getOrFetchEntry<T>(
+  kind: RawKind,
+  date: string,
+  fetcher: () => Promise<T>,
+  options: StoreOptions = {}
+): Promise<StoredResponse<T>> {
+  const entry = await readRaw<T>(kind, date);
+
+  if (options.offline) {
+    if (!entry) {
+      throw new StoreMissError(kind, date);
+    }
+    return entry;
+  }
+
+  if (entry && !options.refresh && !isStale(entry)) {
+    return entry;
+  }
+
+  const data = await fetcher();
+  return await writeRaw(kind, date, data);
+}
+
+/**
+ * Returns the stored response if it is fresh, otherwise fetches and stores it.
+ * In offline mode a stale entry is still used, and a missing one is an error.
+ */
+export async function getOrFetch<T>(
+  kind: RawKind,
+  date: string,
+  fetcher: () => Promise<T>,
+  options: StoreOptions = {}
+): Promise<T> {
+  return (await getOrFetchEntry(kind, date, fetcher, options)).data;
+}
+
+/**
+ * Lists all dates that have at least one stored response, in ascending order
+ */
+export async function listStoredDates(): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(getStoreDirectory(), { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isDirectory() && /^\d{4}-\d{2}-\d{2}$/.test(entry.name))
+      .map(entry => entry.name)
+      .sort();
+  } catch (error) {
+    return [];
+  }
+}
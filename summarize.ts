@@ -1,15 +1,28 @@
 import * as dotenv from 'dotenv';
 import { promises as fs } from 'fs';
 import path from 'path';
-import axios from 'axios';
-import { format, parse, compareDesc } from 'date-fns';
+import { parse, compareDesc } from 'date-fns';
+import { CliArgs, runCommand, resolveDateRange } from './cli-args';
+import { isReportFileComplete } from './report';
+import { stripFrontMatter } from './front-matter';
+import { LlmProvider, createLlmProvider, resolveLlmConfig } from './llm';
+import {
+  InputUsage,
+  PromptBudget,
+  chunkSections,
+  estimateTokens,
+  formatUsage,
+  resolvePromptBudget,
+  truncateToTokens,
+} from './prompt-budget';
+import { generateRollupSummaries } from './summary-rollup';
+import { readActivityFile } from './activity';
+import { formatCalendarDay, readCalendarDay } from './calendar';
+import { RedactionConfig, isPolicyEmpty, loadRedactionConfig, logRedactions, redactForLlm } from './redaction';
 
 // Load environment variables
 dotenv.config();
 
-// API key for OpenAI should be set in a .env file
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
 interface Summary {
   date: string;
   content: string;
@@ -195,137 +208,251 @@ async function getContextFilesContent(): Promise<string> {
   return contextContent;
 }
 
+// Used for the map step of map-reduce mode, on one segment of the hourly breakdown
+const SEGMENT_PROMPT = `You condense part of a developer's hourly activity log (window and tab titles per hour).
+List the concrete work visible in it: projects, repositories, files, tickets, documents, meetings and tools,
+with the hours they were worked on. Keep names exactly as they appear. Reply with at most 10 short bullet points.`;
+
+const HOURLY_HEADING = '## Hourly Breakdown with Tab Titles';
+
+// In auto mode, reports taking more than this share of the budget are summarized in segments
+const REPORT_BUDGET_SHARE = 0.6;
+
 /**
- * Generate a summary using OpenAI API
+ * Splits a report into the part before the hourly breakdown and one section per hour
  */
-async function generateSummary(reportContent: string, promptTemplate: string, previousSummaries: Summary[], date: string): Promise<string> {
-  if (!OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY not found in environment variables');
+function splitReport(reportContent: string): { overview: string; hours: string[] } {
+  const index = reportContent.indexOf(HOURLY_HEADING);
+  if (index === -1) {
+    return { overview: reportContent, hours: [] };
   }
 
-  // Get the most recent 3 summaries for context
-  const recentSummaries = previousSummaries.slice(0, 3);
-  let contextText = '';
+  const hours = reportContent
+    .slice(index + HOURLY_HEADING.length)
+    .split(/^(?=### )/m)
+    .filter(section => section.trim());
+  return { overview: reportContent.slice(0, index), hours };
+}
 
-  if (recentSummaries.length > 0) {
-    contextText = 'Previous days summaries for extended context:\n\n';
-    recentSummaries.forEach(summary => {
-      contextText += `${summary.date}:\n${summary.content}\n\n`;
+/**
+ * Map step: replaces the hourly breakdown with short notes written per segment
+ */
+async function condenseHourlyBreakdown(llm: LlmProvider, overview: string, hours: string[], budget: PromptBudget, date: string): Promise<string> {
+  const chunks = chunkSections(hours, budget.chunkTokens);
+  console.log(`  Summarizing the hourly breakdown of ${date} in ${chunks.length} segments`);
+
+  const notes: string[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    const note = await llm.complete({
+      system: SEGMENT_PROMPT,
+      user: `Activity log for ${date}, segment ${index + 1} of ${chunks.length}:\n\n${chunk}`,
     });
+    notes.push(note);
   }
 
-  // Get GitHub commits for this specific date
-  const githubCommitsContent = await readGitHubCommitsFile(date);
+  return `${overview}## Hourly Breakdown (condensed)\n\n${notes.join('\n\n')}\n`;
+}
+
+/**
+ * Generate a summary using the configured LLM provider, keeping the prompt within the token budget
+ */
+async function generateSummary(
+  llm: LlmProvider,
+  reportContent: string,
+  promptTemplate: string,
+  // Summaries of days before date, oldest first
+  previousSummaries: Summary[],
+  date: string,
+  budget: PromptBudget,
+  redaction: RedactionConfig
+): Promise<string> {
+  let available = budget.maxInputTokens - estimateTokens(promptTemplate);
+  if (available <= 0) {
+    throw new Error(`PROMPT.md alone exceeds the input budget of ${budget.maxInputTokens} tokens`);
+  }
+
+  // The report comes first; segment it when it would crowd out everything else
+  const reportTokens = estimateTokens(reportContent);
+  const { overview, hours } = splitReport(reportContent);
+  const mapReduce = hours.length > 0 && (budget.mode === 'map-reduce' ||
+    (budget.mode === 'auto' && reportTokens > available * REPORT_BUDGET_SHARE));
+  const reportText = truncateToTokens(
+    mapReduce ? await condenseHourlyBreakdown(llm, overview, hours, budget, date) : reportContent,
+    available
+  );
+  available -= estimateTokens(reportText);
+
+  // Then the GitHub commits for this specific date
+  const githubCommitsContent = redactForLlm(await readGitHubCommitsFile(date), redaction).text;
   let commitsContext = '';
   if (githubCommitsContent) {
-    commitsContext = `\n\nGitHub Commits for ${date}:\n\n${githubCommitsContent}`;
+    commitsContext = truncateToTokens(`\n\nGitHub Commits for ${date}:\n\n${githubCommitsContent}`, available);
+    available -= estimateTokens(commitsContext);
   }
 
-  const prompt = `\n${contextText}${commitsContext}\n\nReport to summarize:\n\n${reportContent}`;
+  // Then pull requests, reviews and issues for the same date
+  const activityContent = redactForLlm(await readActivityFile(date), redaction).text;
+  let activityContext = '';
+  if (activityContent) {
+    activityContext = truncateToTokens(`\n\nPull requests, reviews and issues for ${date}:\n\n${activityContent}`, available);
+    available -= estimateTokens(activityContext);
+  }
 
-  try {
-    const response = await axios.post(
-      'https://api.openai.com/v1/chat/completions',
-      {
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: promptTemplate
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7
-        // max_tokens: 300
-      },
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${OPENAI_API_KEY}`
-        }
-      }
-    );
+  // Then the day's meetings
+  const calendarDay = await readCalendarDay(date);
+  const meetingsContent = calendarDay ? redactForLlm(formatCalendarDay(calendarDay), redaction).text : '';
+  let meetingsContext = '';
+  if (meetingsContent) {
+    meetingsContext = truncateToTokens(`\n\nCalendar events for ${date}:\n\n${meetingsContent}`, available);
+    available -= estimateTokens(meetingsContext);
+  }
 
-    return response.data.choices[0].message.content.trim();
-  } catch (error) {
-    console.error('Error calling OpenAI API:', error);
-    if (error instanceof Error && 'response' in error) {
-      console.log((error as any).response.data);
+  // Then up to 3 of the most recent summaries, whole ones only, the newest first
+  const recentSummaries = previousSummaries.slice(-3).reverse();
+  let contextText = '';
+  let includedSummaries = 0;
+  for (const summary of recentSummaries) {
+    const entry = `${summary.date}:\n${summary.content}\n\n`;
+    if (estimateTokens(entry) > available) {
+      break;
     }
-    return 'Failed to generate summary due to an API error.';
+    contextText += entry;
+    available -= estimateTokens(entry);
+    includedSummaries++;
   }
+  if (contextText) {
+    contextText = `Previous days summaries for extended context:\n\n${contextText}`;
+  }
+
+  const summariesTokens = recentSummaries.reduce((total, summary) => total + estimateTokens(`${summary.date}:\n${summary.content}\n\n`), 0);
+  const usage: InputUsage[] = [
+    { name: mapReduce ? 'report (condensed)' : 'report', includedTokens: estimateTokens(reportText), totalTokens: reportTokens },
+    { name: 'commits', includedTokens: estimateTokens(commitsContext), totalTokens: githubCommitsContent ? estimateTokens(githubCommitsContent) : 0 },
+    { name: 'activity', includedTokens: estimateTokens(activityContext), totalTokens: activityContent ? estimateTokens(activityContent) : 0 },
+    { name: 'meetings', includedTokens: estimateTokens(meetingsContext), totalTokens: estimateTokens(meetingsContent) },
+    { name: `previous summaries (${includedSummaries}/${recentSummaries.length})`, includedTokens: estimateTokens(contextText), totalTokens: summariesTokens },
+  ];
+  console.log(`  Prompt for ${date}: ${formatUsage(usage)}, ~${budget.maxInputTokens - available} of ${budget.maxInputTokens} budget`);
+
+  const prompt = `\n${contextText}${commitsContext}${activityContext}${meetingsContext}\n\nReport to summarize:\n\n${reportText}`;
+
+  // Failures throw, so an API error is never saved as if it were a summary
+  return await llm.complete({ system: promptTemplate, user: prompt });
 }
 
 /**
- * Main function to generate summaries for all reports
+ * Runs the summarize command for every report, or the reports in the selected range
  */
-async function main() {
-  try {
-    // Ensure summaries directory exists
-    const summariesDir = await ensureSummariesDirectory();
-
-    // Get the prompt template
-    const promptTemplate = await getPromptTemplate();
+export async function runSummarize(args: CliArgs) {
+  const failedDates: string[] = [];
+
+  // Ensure summaries directory exists
+  const summariesDir = await ensureSummariesDirectory();
+
+  // Get the prompt template
+  const promptTemplate = await getPromptTemplate();
+
+  // Pick the LLM for this run; fails early if it is not configured.
+  // A dry run never calls it, so it does not need the API key.
+  const llmConfig = resolveLlmConfig(args.llm);
+  const llm: LlmProvider | null = args.dryRun ? null : createLlmProvider(llmConfig);
+  const budget = resolvePromptBudget(args.budget);
+  const redaction = await loadRedactionConfig();
+  console.log(`Summarizing with ${llmConfig.provider}/${llmConfig.model}, input budget ${budget.maxInputTokens} tokens (${budget.mode} mode)`);
+
+  // Get all report files, limited to the selected dates if any
+  const range = resolveDateRange(args);
+  const reportFiles = (await getReportFiles()).filter(file => {
+    const match = file.match(/rescuetime-report-(\d{4}-\d{2}-\d{2})\.md$/);
+    return !range || (match && match[1] >= range.from && match[1] <= range.to);
+  });
+
+  if (reportFiles.length === 0) {
+    console.log('No report files found.');
+  } else {
+    console.log(`Found ${reportFiles.length} report files.`);
+  }
 
-    // Get all report files
-    const reportFiles = await getReportFiles();
+  // Process each report file
+  for (const reportFile of reportFiles) {
+    // Extract date from filename
+    const match = reportFile.match(/rescuetime-report-(\d{4}-\d{2}-\d{2})\.md$/);
 
-    if (reportFiles.length === 0) {
-      console.log('No report files found.');
-      return;
+    if (!match) {
+      console.log(`Skipping ${reportFile} - invalid filename format`);
+      continue;
     }
 
-    console.log(`Found ${reportFiles.length} report files.`);
+    const date = match[1];
 
-    // Process each report file
-    for (const reportFile of reportFiles) {
-      // Extract date from filename
-      const match = reportFile.match(/rescuetime-report-(\d{4}-\d{2}-\d{2})\.md$/);
+    // Check if summary already exists
+    const exists = await summaryFileExists(date, summariesDir);
+    if (exists && !args.force) {
+      console.log(`Skipping ${date} - summary already exists`);
+      continue;
+    }
 
-      if (!match) {
-        console.log(`Skipping ${reportFile} - invalid filename format`);
-        continue;
-      }
+    // Partial reports get refreshed by the report command; summarize them afterwards
+    if (!args.force && !(await isReportFileComplete(date, reportFile))) {
+      console.log(`Skipping ${date} - report was generated before the day was complete`);
+      continue;
+    }
 
-      const date = match[1];
+    // Read the report content, redacted for the LLM
+    const { text: reportContent, changes } = redactForLlm(stripFrontMatter(await readReportFile(reportFile)), redaction);
 
-      // Check if summary already exists
-      const exists = await summaryFileExists(date, summariesDir);
-      if (exists) {
-        console.log(`Skipping ${date} - summary already exists`);
-        continue;
+    if (args.dryRun) {
+      console.log(`Would ${exists ? 'regenerate' : 'generate'} summary-${date}.md (report ~${estimateTokens(reportContent)} tokens)`);
+      if (!isPolicyEmpty(redaction.local) || !isPolicyEmpty(redaction.llm)) {
+        logRedactions('Report sent to the LLM', changes);
       }
+      continue;
+    }
 
-      console.log(`Processing ${date}...`);
-
-      // Read the report content
-      const reportContent = await readReportFile(reportFile);
+    console.log(`Processing ${date}...`);
 
-      // Get existing summaries for context
-      const existingSummaries = await getExistingSummaries();
+    // Get the summaries of earlier days for context, oldest first
+    const existingSummaries = (await getExistingSummaries()).filter(summary => summary.date < date);
 
-      // Generate the summary
-      const summary = await generateSummary(reportContent, promptTemplate, existingSummaries, date);
+    // Generate the summary; on failure nothing is written and the next day is tried
+    let summary: string;
+    try {
+      summary = await generateSummary(llm!, reportContent, promptTemplate, existingSummaries, date, budget, redaction);
+    } catch (error) {
+      console.error(`Failed to generate summary for ${date}: ${error instanceof Error ? error.message : error}`);
+      failedDates.push(date);
+      continue;
+    }
 
-      // Save the summary
-      const summaryFileName = `summary-${date}.md`;
-      const summaryFilePath = path.join(summariesDir, summaryFileName);
-      await fs.writeFile(summaryFilePath, summary);
+    // Save the summary
+    const summaryFileName = `summary-${date}.md`;
+    const summaryFilePath = path.join(summariesDir, summaryFileName);
+    await fs.writeFile(summaryFilePath, summary);
 
-      console.log(`Saved summary for ${date} to ${summaryFileName}`);
+    console.log(`Saved summary for ${date} to ${summaryFileName}`);
+  }
 
-      // Add the new summary to the existing ones for context in future iterations
-      existingSummaries.unshift({ date, content: summary });
+  // Rollup summaries are built from the daily summaries written above
+  const rollups = new Set(args.rollups);
+  if (range && (range.kind === 'week' || range.kind === 'month')) {
+    rollups.add(range.kind);
+  }
+  if (rollups.size > 0) {
+    const summaryDates = (await getExistingSummaries()).map(summary => summary.date);
+    const from = range ? range.from : summaryDates[0];
+    const to = range ? range.to : summaryDates[summaryDates.length - 1];
+    if (from && to) {
+      failedDates.push(...await generateRollupSummaries(llm, budget, [...rollups], from, to, summariesDir, args));
     }
+  }
 
-    console.log('All summaries generated successfully.');
-  } catch (error) {
-    console.error('Error generating summaries:', error);
+  if (failedDates.length > 0) {
+    throw new Error(`Failed to generate ${failedDates.length} summaries: ${failedDates.join(', ')}`);
   }
+
+  console.log('All summaries generated successfully.');
 }
 
-// Run the script
-main();
\ No newline at end of file
+if (require.main === module) {
+  runCommand('summarize', process.argv.slice(2), runSummarize);
+}
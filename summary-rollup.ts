@@ -0,0 +1,281 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  format,
+  parseISO,
+  addDays,
+  startOfQuarter,
+  endOfQuarter,
+  eachDayOfInterval,
+} from 'date-fns';
+import { getPeriodRange } from './rollup';
+import { LlmProvider } from './llm';
+import { getToday } from './timezone';
+import { PromptBudget, InputUsage, estimateTokens, truncateToTokens, formatUsage } from './prompt-budget';
+import { formatFrontMatter, parseFrontMatter, stripFrontMatter } from './front-matter';
+import { RedactionChange, RedactionConfig, isPolicyEmpty, loadRedactionConfig, logRedactions, redactForLlm } from './redaction';
+
+export type SummaryPeriod = 'week' | 'month' | 'quarter';
+
+// In hierarchy order: quarters are built from month summaries
+export const SUMMARY_PERIODS: SummaryPeriod[] = ['week', 'month', 'quarter'];
+
+export interface SummaryPeriodRange {
+  period: SummaryPeriod;
+  // 2025-W17, 2025-04 or 2025-Q2
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface RollupSummaryOptions {
+  force: boolean;
+  dryRun: boolean;
+}
+
+// A dated input, e.g. one daily summary or one commits file
+interface PeriodInput {
+  label: string;
+  content: string;
+}
+
+export function isSummaryPeriod(name: string): name is SummaryPeriod {
+  return (SUMMARY_PERIODS as string[]).includes(name);
+}
+
+/**
+ * Returns the week, month or quarter containing the given date
+ */
+export function getSummaryPeriodRange(period: SummaryPeriod, date: Date): SummaryPeriodRange {
+  if (period === 'quarter') {
+    return {
+      period,
+      label: format(date, "yyyy-'Q'Q"),
+      from: format(startOfQuarter(date), 'yyyy-MM-dd'),
+      to: format(endOfQuarter(date), 'yyyy-MM-dd'),
+    };
+  }
+
+  const range = getPeriodRange(period, date);
+  return {
+    period,
+    label: range.label,
+    from: format(range.start, 'yyyy-MM-dd'),
+    to: format(range.end, 'yyyy-MM-dd'),
+  };
+}
+
+/**
+ * Lists the periods overlapping the given dates, in chronological order
+ */
+export function listSummaryPeriods(period: SummaryPeriod, from: string, to: string): SummaryPeriodRange[] {
+  const periods: SummaryPeriodRange[] = [];
+  let cursor = parseISO(from);
+
+  while (format(cursor, 'yyyy-MM-dd') <= to) {
+    const range = getSummaryPeriodRange(period, cursor);
+    periods.push(range);
+    cursor = addDays(parseISO(range.to), 1);
+  }
+
+  return periods;
+}
+
+/**
+ * Returns the file name of a rollup summary, e.g. week-2025-W17.md
+ */
+export function getRollupSummaryFileName(range: SummaryPeriodRange): string {
+  return `${range.period}-${range.label}.md`;
+}
+
+async function readOptionalFile(filePath: string): Promise<string> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    return '';
+  }
+}
+
+/**
+ * Reads the prompt template for a period, e.g. PROMPT-WEEK.md
+ */
+async function getRollupPromptTemplate(period: SummaryPeriod): Promise<string> {
+  const fileName = `PROMPT-${period.toUpperCase()}.md`;
+  const template = await readOptionalFile(path.join(process.cwd(), fileName));
+  if (!template.trim()) {
+    throw new Error(`${fileName} is missing or empty`);
+  }
+  return template;
+}
+
+/**
+ * Collects what a rollup is built from: daily summaries and commit files for weeks
+ * and months, month summaries for quarters. Everything is redacted for the LLM.
+ */
+async function getPeriodInputs(
+  range: SummaryPeriodRange,
+  summariesDir: string,
+  redaction: RedactionConfig
+): Promise<{ summaries: PeriodInput[]; commits: PeriodInput[]; changes: RedactionChange[] }> {
+  const changes: RedactionChange[] = [];
+  const redact = (content: string) => {
+    const redacted = redactForLlm(content, redaction);
+    changes.push(...redacted.changes);
+    return redacted.text;
+  };
+
+  if (range.period === 'quarter') {
+    const months = listSummaryPeriods('month', range.from, range.to);
+    const summaries: PeriodInput[] = [];
+    for (const month of months) {
+      const content = stripFrontMatter(await readOptionalFile(path.join(summariesDir, getRollupSummaryFileName(month))));
+      if (content.trim()) {
+        summaries.push({ label: month.label, content: redact(content) });
+      }
+    }
+    return { summaries, commits: [], changes };
+  }
+
+  const commitsDir = path.join(process.cwd(), 'context', 'commits');
+  const summaries: PeriodInput[] = [];
+  const commits: PeriodInput[] = [];
+
+  for (const day of eachDayOfInterval({ start: parseISO(range.from), end: parseISO(range.to) })) {
+    const date = format(day, 'yyyy-MM-dd');
+    const summary = await readOptionalFile(path.join(summariesDir, `summary-${date}.md`));
+    if (summary.trim()) {
+      summaries.push({ label: date, content: redact(summary) });
+    }
+    const commitsFile = await readOptionalFile(path.join(commitsDir, `github-commits-${date}.md`));
+    if (commitsFile.trim()) {
+      commits.push({ label: date, content: redact(commitsFile) });
+    }
+  }
+
+  return { summaries, commits, changes };
+}
+
+/**
+ * Checks whether an existing rollup summary was written after its period ended
+ */
+async function isRollupSummaryComplete(filePath: string): Promise<boolean> {
+  const { fields } = parseFrontMatter(await readOptionalFile(filePath));
+  return fields.complete === 'true';
+}
+
+function formatInputs(inputs: PeriodInput[]): string {
+  return inputs.map(input => `${input.label}:\n${input.content.trim()}\n\n`).join('');
+}
+
+/**
+ * Generates and saves the rollup summary for one period, unless it is up to date
+ */
+async function generateRollupSummary(
+  llm: LlmProvider | null,
+  budget: PromptBudget,
+  range: SummaryPeriodRange,
+  summariesDir: string,
+  options: RollupSummaryOptions,
+  redaction: RedactionConfig
+): Promise<void> {
+  const fileName = getRollupSummaryFileName(range);
+  const filePath = path.join(summariesDir, fileName);
+  const exists = (await readOptionalFile(filePath)) !== '';
+
+  // Summaries written while the period was still running are refreshed on the next run
+  if (exists && !options.force && await isRollupSummaryComplete(filePath)) {
+    console.log(`Skipping ${fileName} - summary already exists`);
+    return;
+  }
+
+  const { summaries, commits, changes } = await getPeriodInputs(range, summariesDir, redaction);
+  const inputName = range.period === 'quarter' ? 'month summaries' : 'daily summaries';
+  if (summaries.length === 0) {
+    console.log(`Skipping ${fileName} - no ${inputName} for ${range.from} to ${range.to}`);
+    return;
+  }
+
+  if (options.dryRun || !llm) {
+    console.log(`Would ${exists ? 'regenerate' : 'generate'} ${fileName} from ${summaries.length} ${inputName}`);
+    if (!isPolicyEmpty(redaction.local) || !isPolicyEmpty(redaction.llm)) {
+      logRedactions('Inputs sent to the LLM', changes);
+    }
+    return;
+  }
+
+  console.log(`Processing ${range.period} ${range.label}...`);
+  const promptTemplate = await getRollupPromptTemplate(range.period);
+  let available = budget.maxInputTokens - estimateTokens(promptTemplate);
+  if (available <= 0) {
+    throw new Error(`PROMPT-${range.period.toUpperCase()}.md alone exceeds the input budget of ${budget.maxInputTokens} tokens`);
+  }
+
+  // Summaries come first, then as many commits as still fit
+  const heading = `${range.period === 'quarter' ? 'Monthly' : 'Daily'} summaries for ${range.period} ${range.label} (${range.from} to ${range.to}):`;
+  const summariesText = `${heading}\n\n${formatInputs(summaries)}`;
+  const summariesContext = truncateToTokens(summariesText, available);
+  available -= estimateTokens(summariesContext);
+
+  const commitsText = commits.length > 0 ? `\n\nGitHub Commits in this ${range.period}:\n\n${formatInputs(commits)}` : '';
+  const commitsContext = truncateToTokens(commitsText, Math.max(0, available));
+
+  const usage: InputUsage[] = [
+    { name: inputName, includedTokens: estimateTokens(summariesContext), totalTokens: estimateTokens(summariesText) },
+    { name: 'commits', includedTokens: estimateTokens(commitsContext), totalTokens: estimateTokens(commitsText) },
+  ];
+  console.log(`  Prompt for ${range.label}: ${formatUsage(usage)}`);
+
+  const summary = await llm.complete({ system: promptTemplate, user: `${summariesContext}${commitsContext}` });
+
+  const frontMatter = formatFrontMatter({
+    period: range.period,
+    label: range.label,
+    from: range.from,
+    to: range.to,
+    generated_at: new Date().toISOString(),
+    inputs: summaries.length,
+    complete: getToday() > range.to,
+  });
+  await fs.writeFile(filePath, `${frontMatter}${summary}\n`);
+  console.log(`Saved ${range.period} summary to ${fileName}`);
+}
+
+/**
+ * Generates rollup summaries for every period overlapping the dates.
+ * Month summaries are refreshed before the quarters built from them.
+ * Returns the labels of periods that failed.
+ */
+export async function generateRollupSummaries(
+  llm: LlmProvider | null,
+  budget: PromptBudget,
+  periods: SummaryPeriod[],
+  from: string,
+  to: string,
+  summariesDir: string,
+  options: RollupSummaryOptions
+): Promise<string[]> {
+  const failed: string[] = [];
+  const redaction = await loadRedactionConfig();
+  const selected = new Set(periods);
+  if (selected.has('quarter')) {
+    selected.add('month');
+  }
+
+  for (const period of SUMMARY_PERIODS.filter(period => selected.has(period))) {
+    // Cover whole quarters, so their month summaries exist
+    const outer = selected.has('quarter') && period === 'month'
+      ? { from: getSummaryPeriodRange('quarter', parseISO(from)).from, to: getSummaryPeriodRange('quarter', parseISO(to)).to }
+      : { from, to };
+
+    for (const range of listSummaryPeriods(period, outer.from, outer.to)) {
+      try {
+        await generateRollupSummary(llm, budget, range, summariesDir, options, redaction);
+      } catch (error) {
+        console.error(`Failed to generate ${period} summary ${range.label}: ${error instanceof Error ? error.message : error}`);
+        failed.push(`${period}-${range.label}`);
+      }
+    }
+  }
+
+  return failed;
+}
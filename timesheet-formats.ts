@@ -0,0 +1,153 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+export type TimesheetFormat = 'csv' | 'toggl' | 'harvest' | 'clockify';
+
+export const TIMESHEET_FORMATS: TimesheetFormat[] = ['csv', 'toggl', 'harvest', 'clockify'];
+
+export type RoundingMode = 'up' | 'nearest' | 'down';
+
+export const ROUNDING_MODES: RoundingMode[] = ['up', 'nearest', 'down'];
+
+export interface TimesheetOptions {
+  formats: TimesheetFormat[];
+  // Entry durations are rounded to a multiple of this; 0 keeps exact durations
+  roundMinutes: number;
+  rounding: RoundingMode;
+  // Entries with less tracked time are left out, before rounding
+  minMinutes: number;
+}
+
+// One project on one day
+export interface TimesheetEntry {
+  date: string;
+  project: string;
+  client: string;
+  // "HH:mm:ss"; entries of a day are laid out back to back from the first tracked hour
+  start: string;
+  tracked_seconds: number;
+  // After rounding
+  seconds: number;
+}
+
+// Who the time belongs to, required by some import formats
+export interface TimesheetUser {
+  email: string;
+  firstName: string;
+  lastName: string;
+  task: string;
+}
+
+export interface TimesheetExporter {
+  // Appended to the file name, before .csv
+  suffix: string;
+  header: string[];
+  toRow(entry: TimesheetEntry, user: TimesheetUser): (string | number)[];
+  // Settings the format cannot do without
+  requires?: (keyof TimesheetUser)[];
+}
+
+export const DEFAULT_DAY_START = '09:00';
+
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return [hours, minutes, seconds % 60].map(part => String(part).padStart(2, '0')).join(':');
+}
+
+export function formatHours(seconds: number): string {
+  return (seconds / 3600).toFixed(2);
+}
+
+export const EXPORTERS: Record<TimesheetFormat, TimesheetExporter> = {
+  csv: {
+    suffix: '',
+    header: ['date', 'project', 'client', 'hours', 'tracked_hours'],
+    toRow: entry => [entry.date, entry.project, entry.client, formatHours(entry.seconds), formatHours(entry.tracked_seconds)],
+  },
+  // Toggl Track's CSV import
+  toggl: {
+    suffix: '-toggl',
+    header: ['Email', 'Project', 'Client', 'Description', 'Start date', 'Start time', 'Duration'],
+    toRow: (entry, user) => [user.email, entry.project, entry.client, entry.project, entry.date, entry.start, formatDuration(entry.seconds)],
+    requires: ['email'],
+  },
+  // Harvest's time import; clients and projects must already exist in Harvest
+  harvest: {
+    suffix: '-harvest',
+    header: ['Date', 'Client', 'Project', 'Task', 'Notes', 'Hours', 'First name', 'Last name'],
+    toRow: (entry, user) => [entry.date, entry.client, entry.project, user.task, '', formatHours(entry.seconds), user.firstName, user.lastName],
+    requires: ['firstName', 'lastName'],
+  },
+  // Clockify's timesheet import
+  clockify: {
+    suffix: '-clockify',
+    header: ['Project', 'Client', 'Description', 'Task', 'Email', 'Start Date', 'Start Time', 'Duration (h)'],
+    toRow: (entry, user) => [entry.project, entry.client, entry.project, user.task, user.email, entry.date, entry.start, formatDuration(entry.seconds)],
+  },
+};
+
+// Environment variables behind each user setting, for error messages
+export const USER_VARIABLES: Record<keyof TimesheetUser, string> = {
+  email: 'TIMESHEET_EMAIL',
+  firstName: 'TIMESHEET_USER_NAME',
+  lastName: 'TIMESHEET_USER_NAME',
+  task: 'TIMESHEET_TASK',
+};
+
+export function isTimesheetFormat(name: string): name is TimesheetFormat {
+  return (TIMESHEET_FORMATS as string[]).includes(name);
+}
+
+export function isRoundingMode(name: string): name is RoundingMode {
+  return (ROUNDING_MODES as string[]).includes(name);
+}
+
+/**
+ * Builds the timesheet options from TIMESHEET_* environment variables and per-run overrides
+ */
+export function resolveTimesheetOptions(overrides: Partial<TimesheetOptions> = {}): TimesheetOptions {
+  const envRounding = process.env.TIMESHEET_ROUNDING || 'nearest';
+  if (!isRoundingMode(envRounding)) {
+    throw new Error(`TIMESHEET_ROUNDING must be one of ${ROUNDING_MODES.join(', ')}, got "${envRounding}"`);
+  }
+
+  const envRoundMinutes = process.env.TIMESHEET_ROUND_MINUTES ? parseInt(process.env.TIMESHEET_ROUND_MINUTES, 10) : undefined;
+  const envMinMinutes = process.env.TIMESHEET_MIN_MINUTES ? parseInt(process.env.TIMESHEET_MIN_MINUTES, 10) : undefined;
+
+  const options: TimesheetOptions = {
+    formats: overrides.formats || ['csv'],
+    roundMinutes: overrides.roundMinutes ?? envRoundMinutes ?? 0,
+    rounding: overrides.rounding || envRounding,
+    minMinutes: overrides.minMinutes ?? envMinMinutes ?? 0,
+  };
+
+  if (!(options.roundMinutes >= 0) || !(options.minMinutes >= 0)) {
+    throw new Error('TIMESHEET_ROUND_MINUTES and TIMESHEET_MIN_MINUTES must be zero or positive integers');
+  }
+  return options;
+}
+
+export function resolveTimesheetUser(): TimesheetUser {
+  const [firstName = '', ...lastName] = (process.env.TIMESHEET_USER_NAME || '').trim().split(/\s+/);
+  return {
+    email: process.env.TIMESHEET_EMAIL || '',
+    firstName,
+    lastName: lastName.join(' '),
+    task: process.env.TIMESHEET_TASK || 'Development',
+  };
+}
+
+/**
+ * Rounds a duration to the rounding step; never rounds an entry down to nothing
+ */
+export function roundDuration(seconds: number, options: TimesheetOptions): number {
+  const step = options.roundMinutes * 60;
+  if (step === 0) {
+    return Math.round(seconds);
+  }
+
+  const round = { up: Math.ceil, nearest: Math.round, down: Math.floor }[options.rounding];
+  return Math.max(step, round(seconds / step) * step);
+}
@@ -0,0 +1,130 @@
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CliArgs, CliError, getDatesInRange, getLastMonthRange, resolveDateRange, runCommand } from './cli-args';
+import { buildDailyReport } from './report';
+import { loadProjectRules } from './projects';
+import { escapeCsv } from './renderers';
+import { formatTime } from './rescuetime';
+import {
+  DEFAULT_DAY_START,
+  EXPORTERS,
+  TimesheetEntry,
+  TimesheetOptions,
+  USER_VARIABLES,
+  formatDuration,
+  formatHours,
+  resolveTimesheetOptions,
+  resolveTimesheetUser,
+  roundDuration,
+} from './timesheet-formats';
+
+dotenv.config();
+
+function addSeconds(time: string, seconds: number): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  // Entries running past midnight stay on their day for import
+  const total = Math.min(hours * 3600 + minutes * 60 + seconds, 86399);
+  return formatDuration(total);
+}
+
+/**
+ * Builds the timesheet entries of one day from its report's project attribution
+ */
+async function buildDayEntries(date: string, args: CliArgs, options: TimesheetOptions, clients: Record<string, string>): Promise<TimesheetEntry[]> {
+  const { report } = await buildDailyReport(date, { offline: args.offline });
+  if (!report || !report.projects) {
+    return [];
+  }
+
+  const firstHour = report.hourly_documents.find(({ hour }) => hour !== 'unknown')?.hour || DEFAULT_DAY_START;
+  let offset = 0;
+
+  return report.projects.projects
+    .filter(project => project.seconds >= options.minMinutes * 60)
+    .map(project => {
+      const seconds = roundDuration(project.seconds, options);
+      const entry: TimesheetEntry = {
+        date,
+        project: project.name,
+        client: clients[project.name] || '',
+        start: addSeconds(firstHour, offset),
+        tracked_seconds: project.seconds,
+        seconds,
+      };
+      offset += seconds;
+      return entry;
+    });
+}
+
+function getTimesheetDirectory(): string {
+  return path.join(process.cwd(), 'timesheets');
+}
+
+/**
+ * Runs the timesheet command for the selected dates, or last month by default
+ */
+export async function runTimesheet(args: CliArgs) {
+  const range = resolveDateRange(args) || getLastMonthRange();
+  const options = resolveTimesheetOptions(args.timesheet);
+  const user = resolveTimesheetUser();
+
+  // Check the import formats' settings before any day is fetched
+  options.formats.forEach(timesheetFormat => {
+    const missing = (EXPORTERS[timesheetFormat].requires || []).filter(field => !user[field]);
+    if (missing.length > 0) {
+      throw new CliError(`The ${timesheetFormat} format needs ${[...new Set(missing.map(field => USER_VARIABLES[field]))].join(', ')} in .env file`);
+    }
+  });
+
+  const rules = await loadProjectRules();
+  if (rules.length === 0) {
+    console.log('⚠️ No projects.json found; only repositories from commit files will be attributed');
+  }
+  const clients: Record<string, string> = {};
+  rules.forEach(rule => {
+    if (rule.client) {
+      clients[rule.name] = rule.client;
+    }
+  });
+
+  const baseName = `timesheet-${range.from}-to-${range.to}`;
+  if (args.dryRun) {
+    options.formats.forEach(timesheetFormat => {
+      console.log(`Would write timesheets/${baseName}${EXPORTERS[timesheetFormat].suffix}.csv`);
+    });
+    return;
+  }
+
+  // A missing day would under-bill, so any failure stops the export
+  const entries: TimesheetEntry[] = [];
+  for (const date of getDatesInRange(range)) {
+    try {
+      entries.push(...await buildDayEntries(date, args, options, clients));
+    } catch (error) {
+      throw new Error(`Failed to build the timesheet for ${date}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const projectTotals: Record<string, number> = {};
+  entries.forEach(entry => {
+    projectTotals[entry.project] = (projectTotals[entry.project] || 0) + entry.seconds;
+  });
+  console.log(`Timesheet from ${range.from} to ${range.to}: ${entries.length} entries`);
+  Object.keys(projectTotals).sort((a, b) => projectTotals[b] - projectTotals[a]).forEach(project => {
+    console.log(`  ${project}: ${formatTime(projectTotals[project])} (${formatHours(projectTotals[project])} h)`);
+  });
+
+  await fs.mkdir(getTimesheetDirectory(), { recursive: true });
+  for (const timesheetFormat of options.formats) {
+    const exporter = EXPORTERS[timesheetFormat];
+    const rows = [exporter.header, ...entries.map(entry => exporter.toRow(entry, user))];
+    const filePath = path.join(getTimesheetDirectory(), `${baseName}${exporter.suffix}.csv`);
+    await fs.writeFile(filePath, rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n');
+    console.log(`Saved ${filePath}`);
+  }
+}
+
+if (require.main === module) {
+  runCommand('timesheet', process.argv.slice(2), runTimesheet);
+}
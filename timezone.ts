@@ -0,0 +1,117 @@
+import { addDays, format, parseISO, subDays } from 'date-fns';
+
+// The latest DAY_START accepted, so a day never ends more than a day after its date
+const MAX_DAY_START_MINUTES = 12 * 60;
+
+/**
+ * The time zone days are counted in: TIMEZONE, or the computer's zone.
+ * It should match the zone of the RescueTime account, whose timestamps carry no zone.
+ */
+export function getTimeZone(): string {
+  const zone = process.env.TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+  } catch (error) {
+    throw new Error(`TIMEZONE must be an IANA time zone such as Europe/Berlin, got "${zone}"`);
+  }
+  return zone;
+}
+
+/**
+ * When a day starts, in minutes after midnight: DAY_START ("HH:mm", default 00:00).
+ * Activity before it counts towards the day before.
+ */
+export function getDayStartMinutes(): number {
+  const value = process.env.DAY_START || '00:00';
+  const match = value.match(/^(\d{2}):([0-5]\d)$/);
+  const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+  if (!(minutes <= MAX_DAY_START_MINUTES)) {
+    throw new Error(`DAY_START must be a time between 00:00 and 12:00 as HH:mm, got "${value}"`);
+  }
+  return minutes;
+}
+
+/**
+ * Returns the offset of a zone from UTC at the given instant, in milliseconds
+ */
+export function getZoneOffset(zone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Converts a wall time in a zone, given as UTC milliseconds, to an instant
+ */
+export function wallTimeToInstant(wall: number, zone: string): Date {
+  // Correct twice so times next to a DST change land on the right offset
+  let instant = wall - getZoneOffset(zone, wall);
+  instant = wall - getZoneOffset(zone, instant);
+  return new Date(instant);
+}
+
+/**
+ * Formats an instant as the wall time in the configured zone, e.g. "2025-04-25T14:05:00"
+ */
+export function toZonedTime(instant: Date | string): string {
+  const time = new Date(instant).getTime();
+  return new Date(time + getZoneOffset(getTimeZone(), time)).toISOString().slice(0, 19);
+}
+
+/**
+ * The day a wall time such as "2025-04-26T01:30:00" belongs to, taking DAY_START into account
+ */
+export function getDayOfWallTime(wallTime: string): string {
+  const wall = Date.parse(`${wallTime.slice(0, 19)}Z`);
+  return new Date(wall - getDayStartMinutes() * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * The day an instant, e.g. a commit timestamp, belongs to in the configured zone
+ */
+export function getDayOfInstant(instant: Date | string): string {
+  return getDayOfWallTime(toZonedTime(instant));
+}
+
+/**
+ * The instant a day starts, at DAY_START in the configured zone; it ends when the next one starts
+ */
+export function getDayStartInstant(date: string): Date {
+  const midnight = Date.parse(`${date}T00:00:00Z`);
+  return wallTimeToInstant(midnight + getDayStartMinutes() * 60 * 1000, getTimeZone());
+}
+
+export function getToday(): string {
+  return getDayOfInstant(new Date());
+}
+
+export function getYesterday(): string {
+  return format(subDays(parseISO(getToday()), 1), 'yyyy-MM-dd');
+}
+
+export function getNextDate(date: string): string {
+  return format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+}
+
+/**
+ * Orders "HH:mm" hours as they occur in a day, so hours after midnight follow the evening
+ */
+export function compareHours(a: string, b: string): number {
+  const position = (hour: string) => {
+    const minutes = Number(hour.slice(0, 2)) * 60 + Number(hour.slice(3, 5));
+    // "unknown" sorts last
+    return isNaN(minutes) ? Infinity : (minutes - getDayStartMinutes() + 24 * 60) % (24 * 60);
+  };
+  return position(a) - position(b);
+}